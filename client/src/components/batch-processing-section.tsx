@@ -0,0 +1,175 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+
+interface BatchProcessingSectionProps {
+  deckId: number;
+  onStudy: (videoId: number) => void;
+  onStartOver: () => void;
+}
+
+interface DeckItem {
+  video: {
+    id: number;
+    originalName: string;
+    status: string;
+    processingProgress: number | null;
+    errorMessage: string | null;
+    sourceKind: "media" | "document";
+  };
+  job: {
+    status: string;
+    attempts: number;
+    maxAttempts: number;
+  } | null;
+}
+
+const statusStyles: Record<string, { label: string; className: string; icon: string }> = {
+  uploading: { label: "Queued", className: "bg-slate-100 text-slate-600", icon: "fas fa-clock" },
+  processing: { label: "Processing", className: "bg-accent/10 text-accent", icon: "fas fa-cog fa-spin" },
+  completed: { label: "Ready", className: "bg-secondary/10 text-secondary", icon: "fas fa-check-circle" },
+  failed: { label: "Failed", className: "bg-red-100 text-red-700", icon: "fas fa-exclamation-triangle" },
+};
+
+export default function BatchProcessingSection({ deckId, onStudy, onStartOver }: BatchProcessingSectionProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  // One request covers every file in the deck, instead of polling each video.
+  const { data: deckData } = useQuery({
+    queryKey: ["/api/decks", deckId],
+    queryFn: async () => {
+      const response = await fetch(`/api/decks/${deckId}`);
+      if (!response.ok) throw new Error("Failed to fetch deck status");
+      return response.json();
+    },
+    refetchInterval: (query) => {
+      const items: DeckItem[] = query.state.data?.items || [];
+      const settled = items.length > 0 && items.every(item => item.video.status === "completed" || item.video.status === "failed");
+      return settled ? false : 2000;
+    },
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: async (videoId: number) => {
+      const response = await fetch(`/api/videos/${videoId}/retry`, { method: "POST" });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || "Retry failed");
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/decks", deckId] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Retry failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const items: DeckItem[] = deckData?.items || [];
+  const completedCount = items.filter(item => item.video.status === "completed").length;
+  const failedCount = items.filter(item => item.video.status === "failed").length;
+  // Failed files count as done so the overall bar can still reach 100%.
+  const overallProgress = items.length > 0
+    ? Math.round(items.reduce((sum, item) => sum + (item.video.status === "failed" ? 100 : item.video.processingProgress || 0), 0) / items.length)
+    : 0;
+
+  return (
+    <div className="mb-12">
+      <div className="bg-white rounded-2xl shadow-lg p-8 max-w-4xl mx-auto">
+        <div className="text-center mb-8">
+          <h3 className="text-2xl font-bold text-slate-900 mb-2">{deckData?.deck?.name || "Processing Your Files"}</h3>
+          <p className="text-slate-600">
+            {completedCount} of {items.length} ready
+            {failedCount > 0 && ` • ${failedCount} failed`}
+          </p>
+        </div>
+
+        {/* Overall Progress */}
+        <div className="mb-8">
+          <div className="flex justify-between items-center mb-2">
+            <span className="text-sm font-medium text-slate-700">Overall Progress</span>
+            <span className="text-sm text-slate-600">{overallProgress}%</span>
+          </div>
+          <div className="w-full bg-slate-200 rounded-full h-3">
+            <div
+              className="bg-gradient-to-r from-primary to-secondary h-3 rounded-full transition-all duration-500"
+              style={{ width: `${overallProgress}%` }}
+            ></div>
+          </div>
+        </div>
+
+        {/* Per-file Status */}
+        <div className="space-y-3">
+          {items.map(({ video, job }) => {
+            const style = statusStyles[video.status] || statusStyles.processing;
+            return (
+              <div key={video.id} className="border border-slate-200 rounded-lg p-4">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex items-center min-w-0">
+                    <i className={`fas ${video.sourceKind === "document" ? "fa-file-alt" : "fa-film"} text-slate-400 mr-3`}></i>
+                    <span className="font-medium text-slate-800 truncate">{video.originalName}</span>
+                  </div>
+                  <div className="flex items-center gap-3 shrink-0">
+                    <span className={`px-3 py-1 rounded-full text-xs font-medium ${style.className}`}>
+                      <i className={`${style.icon} mr-1`}></i>
+                      {style.label}
+                    </span>
+                    {video.status === "completed" && (
+                      <button
+                        className="bg-primary text-white px-4 py-1.5 rounded-lg text-sm hover:bg-blue-700 transition-colors"
+                        onClick={() => onStudy(video.id)}
+                      >
+                        Study
+                      </button>
+                    )}
+                    {video.status === "failed" && (
+                      <button
+                        className="bg-white text-slate-700 px-4 py-1.5 rounded-lg text-sm border border-slate-200 hover:bg-slate-50 transition-colors disabled:opacity-50"
+                        onClick={() => retryMutation.mutate(video.id)}
+                        disabled={retryMutation.isPending}
+                      >
+                        Retry
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {video.status === "processing" && (
+                  <div className="w-full bg-slate-200 rounded-full h-2 mt-3">
+                    <div
+                      className="bg-primary h-2 rounded-full transition-all duration-500"
+                      style={{ width: `${video.processingProgress || 0}%` }}
+                    ></div>
+                  </div>
+                )}
+                {job?.status === "queued" && job.attempts > 0 && (
+                  <p className="text-amber-700 text-xs mt-2">
+                    Attempt {job.attempts} of {job.maxAttempts} failed, retrying shortly...
+                  </p>
+                )}
+                {video.status === "failed" && video.errorMessage && (
+                  <p className="text-red-700 text-xs mt-2">{video.errorMessage}</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex justify-center mt-8">
+          <button
+            className="bg-white text-slate-700 px-6 py-3 rounded-lg border border-slate-200 hover:bg-slate-50 transition-colors"
+            onClick={onStartOver}
+          >
+            <i className="fas fa-plus mr-2"></i>
+            Upload More
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import type { Flashcard } from "@shared/schema";
+import { parseCloze } from "@shared/cloze";
+
+interface CardContentProps {
+  flashcard: Pick<Flashcard, "cardType" | "question" | "answer" | "clozeIndex">;
+  side: "front" | "back";
+}
+
+// The text on one side of a card. Question-answer cards show one field per
+// side; a cloze card shows its note on both, with its own deletion hidden on
+// the front and highlighted on the back.
+export default function CardContent({ flashcard, side }: CardContentProps) {
+  if (flashcard.cardType !== "cloze") {
+    return <>{side === "front" ? flashcard.question : flashcard.answer}</>;
+  }
+
+  return (
+    <>
+      {parseCloze(flashcard.question).map((part, i) => {
+        if (part.index !== flashcard.clozeIndex) return <span key={i}>{part.text}</span>;
+        return side === "front" ? (
+          <span key={i} className="text-primary font-semibold">[{part.hint ?? "..."}]</span>
+        ) : (
+          <span key={i} className="bg-secondary/10 text-secondary font-semibold rounded px-1">{part.text}</span>
+        );
+      })}
+    </>
+  );
+}
@@ -1,4 +1,5 @@
 import { useQuery } from "@tanstack/react-query";
+import type { CardReviewState } from "@shared/schema";
 
 interface CompletionSectionProps {
   videoId: number;
@@ -11,6 +12,16 @@ export default function CompletionSection({ videoId, onStartOver }: CompletionSe
     queryKey: ["/api/videos", videoId, "study-session"],
   });
 
+  // Fetch how each card was last graded
+  const { data: reviewStatesData } = useQuery<{ states: CardReviewState[] }>({
+    queryKey: ["/api/videos", videoId, "review-states"],
+    queryFn: async () => {
+      const response = await fetch(`/api/videos/${videoId}/review-states`);
+      if (!response.ok) throw new Error("Failed to fetch review states");
+      return response.json();
+    },
+  });
+
   // Fetch flashcards to get total count
   const { data: flashcardsData } = useQuery({
     queryKey: ["/api/videos", videoId, "flashcards"],
@@ -18,8 +29,9 @@ export default function CompletionSection({ videoId, onStartOver }: CompletionSe
 
   const session = sessionData?.session;
   const flashcards = flashcardsData?.flashcards || [];
-  const learnedCount = session?.completedCards?.length || 0;
-  const reviewCount = session?.reviewCards?.length || 0;
+  const reviewStates = reviewStatesData?.states || [];
+  const learnedCount = reviewStates.filter(state => state.lastGrade === "good" || state.lastGrade === "easy").length;
+  const reviewCount = reviewStates.filter(state => state.lastGrade === "again" || state.lastGrade === "hard").length;
   const totalCards = flashcards.length;
 
   // Calculate study time (mock data for now)
@@ -0,0 +1,218 @@
+import { useState } from "react";
+import type { CardType, GenerationOptions } from "@shared/schema";
+import { Checkbox } from "./ui/checkbox";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "./ui/collapsible";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { RadioGroup, RadioGroupItem } from "./ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+
+type CountMode = "default" | "count" | "density";
+
+interface GenerationOptionsPanelProps {
+  value: GenerationOptions;
+  onChange: (value: GenerationOptions) => void;
+}
+
+const DEFAULT_OPTION = "default";
+
+const difficultyLabels: Record<NonNullable<GenerationOptions["difficulty"]>, string> = {
+  easy: "Easy",
+  medium: "Medium",
+  hard: "Hard",
+  mixed: "Mixed",
+};
+
+const answerLengthLabels: Record<NonNullable<GenerationOptions["answerLength"]>, string> = {
+  short: "Short",
+  medium: "A sentence or two",
+  detailed: "Detailed",
+};
+
+const audienceLabels: Record<NonNullable<GenerationOptions["audienceLevel"]>, string> = {
+  beginner: "Beginner",
+  intermediate: "Intermediate",
+  advanced: "Advanced",
+};
+
+const languageLabels: Record<string, string> = {
+  en: "English",
+  es: "Spanish",
+  fr: "French",
+  de: "German",
+  it: "Italian",
+  pt: "Portuguese",
+  nl: "Dutch",
+  ru: "Russian",
+  ar: "Arabic",
+  hi: "Hindi",
+  zh: "Chinese",
+  ja: "Japanese",
+  ko: "Korean",
+};
+
+const cardTypeLabels: Record<CardType, string> = {
+  basic: "Question and answer",
+  cloze: "Cloze (fill in the blank)",
+  multiple_choice: "Multiple choice",
+};
+
+// "Advanced options" for an upload: how many cards to generate and how they
+// should read. Anything left on its default is omitted from the request.
+export default function GenerationOptionsPanel({ value, onChange }: GenerationOptionsPanelProps) {
+  const [open, setOpen] = useState(false);
+  const [countMode, setCountMode] = useState<CountMode>(
+    value.cardCount !== undefined ? "count" : value.cardsPerMinute !== undefined ? "density" : "default",
+  );
+  const [focusTopics, setFocusTopics] = useState(value.focusTopics?.join(", ") ?? "");
+
+  const update = (changes: Partial<GenerationOptions>) => {
+    onChange({ ...value, ...changes });
+  };
+
+  const handleCountModeChange = (mode: CountMode) => {
+    setCountMode(mode);
+    update({
+      cardCount: mode === "count" ? value.cardCount ?? 10 : undefined,
+      cardsPerMinute: mode === "density" ? value.cardsPerMinute ?? 1 : undefined,
+    });
+  };
+
+  const parseNumber = (input: string) => {
+    const parsed = Number(input);
+    return input.trim() === "" || Number.isNaN(parsed) ? undefined : parsed;
+  };
+
+  const handleFocusTopicsChange = (input: string) => {
+    setFocusTopics(input);
+    const topics = input.split(",").map(topic => topic.trim()).filter(Boolean);
+    update({ focusTopics: topics.length > 0 ? topics : undefined });
+  };
+
+  // At least one type stays selected; question-answer alone is the default.
+  const handleCardTypeChange = (type: CardType, checked: boolean) => {
+    const current = value.cardTypes ?? ["basic"];
+    const next = (Object.keys(cardTypeLabels) as CardType[]).filter(option =>
+      option === type ? checked : current.includes(option),
+    );
+    if (next.length === 0) return;
+    update({ cardTypes: next.length === 1 && next[0] === "basic" ? undefined : next });
+  };
+
+  const renderSelect = <T extends string>(
+    id: string,
+    label: string,
+    labels: Record<T, string>,
+    selected: T | undefined,
+    onSelect: (value: T | undefined) => void,
+  ) => (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Select
+        value={selected ?? DEFAULT_OPTION}
+        onValueChange={(next) => onSelect(next === DEFAULT_OPTION ? undefined : next as T)}
+      >
+        <SelectTrigger id={id}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={DEFAULT_OPTION}>Default</SelectItem>
+          {(Object.keys(labels) as T[]).map(option => (
+            <SelectItem key={option} value={option}>{labels[option]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <Collapsible
+      open={open}
+      onOpenChange={setOpen}
+      className="bg-white rounded-2xl shadow-md border border-slate-200 max-w-4xl mx-auto mt-6"
+    >
+      <CollapsibleTrigger className="w-full flex items-center justify-between px-6 py-4 text-left">
+        <span className="font-medium text-slate-900">
+          <i className="fas fa-sliders-h mr-2 text-slate-500"></i>
+          Advanced options
+        </span>
+        <i className={`fas ${open ? "fa-chevron-up" : "fa-chevron-down"} text-slate-400`}></i>
+      </CollapsibleTrigger>
+
+      <CollapsibleContent className="px-6 pb-6 space-y-6">
+        <div className="space-y-3">
+          <Label>Number of cards</Label>
+          <RadioGroup value={countMode} onValueChange={(mode) => handleCountModeChange(mode as CountMode)}>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="default" id="count-default" />
+              <Label htmlFor="count-default">Let the AI decide (8-10)</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="count" id="count-fixed" />
+              <Label htmlFor="count-fixed">Fixed number</Label>
+              {countMode === "count" && (
+                <Input
+                  type="number"
+                  min={1}
+                  max={50}
+                  className="w-24 h-8"
+                  value={value.cardCount ?? ""}
+                  onChange={(e) => update({ cardCount: parseNumber(e.target.value) })}
+                />
+              )}
+            </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="density" id="count-density" />
+              <Label htmlFor="count-density">Cards per minute of video</Label>
+              {countMode === "density" && (
+                <Input
+                  type="number"
+                  min={0.1}
+                  max={5}
+                  step={0.1}
+                  className="w-24 h-8"
+                  value={value.cardsPerMinute ?? ""}
+                  onChange={(e) => update({ cardsPerMinute: parseNumber(e.target.value) })}
+                />
+              )}
+            </div>
+          </RadioGroup>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+          {renderSelect("option-difficulty", "Difficulty", difficultyLabels, value.difficulty, (difficulty) => update({ difficulty }))}
+          {renderSelect("option-answer-length", "Answer length", answerLengthLabels, value.answerLength, (answerLength) => update({ answerLength }))}
+          {renderSelect("option-audience", "Audience", audienceLabels, value.audienceLevel, (audienceLevel) => update({ audienceLevel }))}
+          {renderSelect("option-language", "Spoken language", languageLabels, value.language, (language) => update({ language }))}
+        </div>
+
+        <div className="space-y-3">
+          <Label>Card types</Label>
+          <div className="flex flex-wrap gap-6">
+            {(Object.keys(cardTypeLabels) as CardType[]).map(type => (
+              <div key={type} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`card-type-${type}`}
+                  checked={(value.cardTypes ?? ["basic"]).includes(type)}
+                  onCheckedChange={(checked) => handleCardTypeChange(type, checked === true)}
+                />
+                <Label htmlFor={`card-type-${type}`}>{cardTypeLabels[type]}</Label>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="option-focus-topics">Focus topics (optional)</Label>
+          <Input
+            id="option-focus-topics"
+            placeholder="e.g. photosynthesis, cell respiration"
+            value={focusTopics}
+            onChange={(e) => handleFocusTopicsChange(e.target.value)}
+          />
+          <p className="text-xs text-slate-500">Separate topics with commas</p>
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,31 @@
+import type { ReviewGrade } from "@shared/schema";
+
+const gradeButtons: { grade: ReviewGrade; label: string; className: string }[] = [
+  { grade: "again", label: "Again", className: "bg-red-500 hover:bg-red-600" },
+  { grade: "hard", label: "Hard", className: "bg-accent hover:bg-yellow-600" },
+  { grade: "good", label: "Good", className: "bg-secondary hover:bg-green-600" },
+  { grade: "easy", label: "Easy", className: "bg-primary hover:bg-blue-700" },
+];
+
+interface GradeButtonsProps {
+  onGrade: (grade: ReviewGrade) => void;
+  disabled?: boolean;
+}
+
+// Again / Hard / Good / Easy, for rating recall once the answer is shown.
+export default function GradeButtons({ onGrade, disabled }: GradeButtonsProps) {
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 max-w-2xl mx-auto">
+      {gradeButtons.map(({ grade, label, className }) => (
+        <button
+          key={grade}
+          className={`${className} text-white px-6 py-3 rounded-lg transition-colors disabled:opacity-50`}
+          onClick={() => onGrade(grade)}
+          disabled={disabled}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -1,3 +1,4 @@
+import { Link } from "wouter";
 import { useAuth } from "@/contexts/auth-context";
 import { Button } from "./ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "./ui/avatar";
@@ -9,7 +10,7 @@ export default function Header() {
     <header className="bg-white shadow-sm border-b border-slate-200">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
         <div className="flex justify-between items-center py-6">
-          <div className="flex items-center space-x-3">
+          <Link href="/" className="flex items-center space-x-3">
             <div className="w-10 h-10 bg-primary rounded-xl flex items-center justify-center">
               <i className="fas fa-play text-white text-lg"></i>
             </div>
@@ -17,12 +18,16 @@ export default function Header() {
               <h1 className="text-2xl font-bold text-slate-900">VideoFlash</h1>
               <p className="text-sm text-slate-600">AI-Powered Learning</p>
             </div>
-          </div>
+          </Link>
           <nav className="flex items-center space-x-4">
             {isLoading ? (
               <div className="w-8 h-8 bg-gray-200 rounded-full animate-pulse"></div>
             ) : user ? (
               <div className="flex items-center space-x-3">
+                <Link href="/review" className="text-sm font-medium text-primary hover:underline">
+                  <i className="fas fa-calendar-check mr-1"></i>
+                  Due today
+                </Link>
                 <span className="text-sm text-slate-600">Welcome, {user.name}!</span>
                 <Avatar>
                   <AvatarImage src={user.profileImage} alt={user.name} />
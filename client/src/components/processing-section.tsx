@@ -1,27 +1,153 @@
-import { useEffect } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { Flashcard, PipelineStage, ProcessingEvent } from "@shared/schema";
+import { clozeText } from "@shared/cloze";
+import { useToast } from "@/hooks/use-toast";
+import { applyProcessingEvent, overridableAssessment, type VideoResponse } from "@/lib/processing-events";
 import { Progress } from "./ui/progress";
 import VideoPlayer from "./video-player";
 
+const stageGuidance: Record<PipelineStage, { title: string; guidance: string }> = {
+  upload: {
+    title: "Upload",
+    guidance: "The video could not be read. Check that the file or URL is still available, or upload it again.",
+  },
+  transcribe: {
+    title: "Transcription",
+    guidance: "We couldn't transcribe the audio. Make sure the video has clear speech; temporary provider issues usually resolve on retry.",
+  },
+  generate: {
+    title: "Flashcard generation",
+    guidance: "The transcript was saved, but flashcards couldn't be generated from it. Retrying will reuse the existing transcript.",
+  },
+  save: {
+    title: "Saving flashcards",
+    guidance: "Flashcards were generated but couldn't be saved. Retrying is usually enough.",
+  },
+};
+
+// Documents reuse the transcribe stage for text extraction.
+const documentExtractionGuidance = {
+  title: "Text extraction",
+  guidance: "We couldn't read text from the document. Scanned PDFs need to be run through OCR first; otherwise check that the file opens correctly.",
+};
+
 interface ProcessingSectionProps {
   videoId: number;
   onComplete: () => void;
 }
 
 export default function ProcessingSection({ videoId, onComplete }: ProcessingSectionProps) {
-  const { data: videoData } = useQuery({
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  // Updates arrive over Server-Sent Events; polling is only the fallback for
+  // browsers or proxies where the stream can't be opened.
+  const [streamUnavailable, setStreamUnavailable] = useState(typeof EventSource === "undefined");
+  const [transcriptPreview, setTranscriptPreview] = useState("");
+  const [savedCards, setSavedCards] = useState<Flashcard[]>([]);
+
+  const { data: videoData } = useQuery<VideoResponse>({
     queryKey: ["/api/videos", videoId],
     queryFn: async () => {
       const response = await fetch(`/api/videos/${videoId}`);
       if (!response.ok) throw new Error("Failed to fetch video status");
       return response.json();
     },
-    refetchInterval: 2000, // Poll every 2 seconds
+    refetchInterval: streamUnavailable ? 2000 : false, // Poll every 2 seconds
   });
 
   const video = videoData?.video;
+  const job = videoData?.job;
   const progress = video?.processingProgress || 0;
   const status = video?.status || "processing";
+  const isSettled = status === "completed" || status === "failed";
+
+  useEffect(() => {
+    if (streamUnavailable || isSettled) return;
+
+    const queryKey = ["/api/videos", videoId];
+
+    let lastStage: PipelineStage | null = null;
+    const handleEvent = (event: ProcessingEvent) => {
+      queryClient.setQueryData<VideoResponse>(queryKey, data => data && applyProcessingEvent(data, event));
+      switch (event.type) {
+        case "progress":
+          // Each generation saves a fresh set of cards
+          if (event.stage === "generate" && lastStage !== "generate") setSavedCards([]);
+          lastStage = event.stage;
+          break;
+        case "transcript":
+          setTranscriptPreview(event.text);
+          break;
+        case "flashcard":
+          setSavedCards(cards => [...cards, event.flashcard]);
+          break;
+      }
+    };
+
+    const source = new EventSource(`/api/videos/${videoId}/events`);
+    let opened = false;
+    source.onopen = () => {
+      opened = true;
+      // Events sent before the stream (re)connected are not replayed
+      queryClient.invalidateQueries({ queryKey });
+    };
+    source.onmessage = (message) => handleEvent(JSON.parse(message.data));
+    source.onerror = () => {
+      // The browser reconnects on its own after a drop; only give up when
+      // the stream never opened or the browser has stopped trying.
+      if (!opened || source.readyState === EventSource.CLOSED) {
+        source.close();
+        setStreamUnavailable(true);
+      }
+    };
+
+    return () => source.close();
+  }, [videoId, streamUnavailable, isSettled, queryClient]);
+
+  const retryMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/videos/${videoId}/retry`, { method: "POST" });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || "Retry failed");
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/videos", videoId] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Retry failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Lifts the transcript quality gate, then retries generation with it lifted.
+  const overrideQualityMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/videos/${videoId}/transcript-quality`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ override: true }),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || "Override failed");
+      }
+    },
+    onSuccess: () => retryMutation.mutate(),
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't generate anyway",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
 
   useEffect(() => {
     if (status === "completed") {
@@ -33,8 +159,13 @@ export default function ProcessingSection({ videoId, onComplete }: ProcessingSec
 
   // Show error state
   if (status === "failed") {
-    const errorMessage = (video as any)?.errorMessage || "An unknown error occurred during processing";
-    
+    const errorMessage = video?.errorMessage || "An unknown error occurred during processing";
+    const failedStage = video?.failedStage as PipelineStage | null;
+    const stage = failedStage === "transcribe" && video?.sourceKind === "document"
+      ? documentExtractionGuidance
+      : failedStage ? stageGuidance[failedStage] : null;
+    const assessment = overridableAssessment(video);
+
     return (
       <div className="mb-12">
         <div className="bg-white rounded-2xl shadow-lg p-8 max-w-4xl mx-auto">
@@ -43,16 +174,51 @@ export default function ProcessingSection({ videoId, onComplete }: ProcessingSec
               <i className="fas fa-exclamation-triangle text-2xl text-red-600"></i>
             </div>
             <h3 className="text-2xl font-bold text-slate-900 mb-2">Processing Failed</h3>
-            <p className="text-slate-600 mb-4">We encountered an error while processing your video:</p>
-            <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
-              <p className="text-red-800 text-sm">{errorMessage}</p>
+            <p className="text-slate-600 mb-4">
+              {stage
+                ? `We encountered an error during the ${stage.title.toLowerCase()} stage:`
+                : "We encountered an error while processing your video:"}
+            </p>
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4">
+              {assessment ? (
+                <ul className="text-red-800 text-sm text-left list-disc list-inside space-y-1">
+                  {assessment.issues.map(issue => (
+                    <li key={issue.code}>{issue.message}</li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-red-800 text-sm">{errorMessage}</p>
+              )}
+              {video?.errorCode && (
+                <p className="text-red-600 text-xs mt-2">Error code: {video.errorCode}</p>
+              )}
             </div>
-            <button 
-              onClick={() => window.location.reload()} 
-              className="bg-primary text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors"
-            >
-              Try Again
-            </button>
+            {assessment ? (
+              <p className="text-slate-600 text-sm mb-6">
+                The transcript was checked before generating flashcards and looks unsuitable. If it is fine, you can generate flashcards anyway.
+              </p>
+            ) : stage && (
+              <p className="text-slate-600 text-sm mb-6">{stage.guidance}</p>
+            )}
+            {assessment ? (
+              <button
+                onClick={() => overrideQualityMutation.mutate()}
+                disabled={overrideQualityMutation.isPending || retryMutation.isPending}
+                className="bg-primary text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                {overrideQualityMutation.isPending || retryMutation.isPending ? "Starting..." : "Generate anyway"}
+              </button>
+            ) : (
+              <button 
+                onClick={() => retryMutation.mutate()} 
+                disabled={retryMutation.isPending}
+                className="bg-primary text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                {retryMutation.isPending
+                  ? "Retrying..."
+                  : stage ? `Retry ${stage.title.toLowerCase()}` : "Try Again"}
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -97,6 +263,52 @@ export default function ProcessingSection({ videoId, onComplete }: ProcessingSec
           </div>
         </div>
 
+        {/* Retry Notice */}
+        {job?.status === "queued" && job.attempts > 0 && (
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 mb-6">
+            <p className="text-amber-800 text-sm">
+              Attempt {job.attempts} of {job.maxAttempts} failed, retrying shortly...
+            </p>
+          </div>
+        )}
+
+        {/* Live Output */}
+        {(transcriptPreview || savedCards.length > 0) && (
+          <div className="space-y-4 mb-6">
+            {transcriptPreview && (
+              <div className="bg-slate-50 border border-slate-200 rounded-lg p-4">
+                <p className="text-xs font-medium text-slate-500 uppercase mb-2">Transcript</p>
+                <p className="text-sm text-slate-700 line-clamp-3">
+                  {transcriptPreview.length > 400 ? `…${transcriptPreview.slice(-400)}` : transcriptPreview}
+                </p>
+              </div>
+            )}
+            {savedCards.length > 0 && (
+              <div className="bg-slate-50 border border-slate-200 rounded-lg p-4">
+                <p className="text-xs font-medium text-slate-500 uppercase mb-2">
+                  {savedCards.length} flashcard{savedCards.length === 1 ? "" : "s"} ready
+                </p>
+                <ul className="space-y-1">
+                  {savedCards.slice(-3).map(card => (
+                    <li key={card.id} className="text-sm text-slate-700 truncate">
+                      <i className="fas fa-layer-group text-slate-400 mr-2"></i>
+                      {card.cardType === "cloze" ? clozeText(card.question, card.clozeIndex ?? undefined) : card.question}
+                    </li>
+                  ))}
+                </ul>
+                {/* Cards are saved as they generate, so studying can start now */}
+                <button
+                  className="mt-4 bg-primary text-white px-4 py-2 rounded-lg text-sm hover:bg-blue-700 transition-colors"
+                  onClick={onComplete}
+                >
+                  <i className="fas fa-play mr-2"></i>
+                  Start studying now
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Processing Steps */}
         <div className="space-y-4">
           {steps.map((step, index) => (
@@ -0,0 +1,63 @@
+import { useMemo } from "react";
+import type { CardOption, Flashcard } from "@shared/schema";
+
+interface QuizCardProps {
+  flashcard: Pick<Flashcard, "id" | "question" | "answer" | "options">;
+  // The option the learner chose, once they have.
+  picked: string | null;
+  onPick: (option: string) => void;
+}
+
+function shuffle(options: CardOption[]): CardOption[] {
+  const shuffled = [...options];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+// A multiple-choice card in quiz mode. Options are reshuffled whenever the
+// card comes up, and a pick is marked right or wrong straight away.
+export default function QuizCard({ flashcard, picked, onPick }: QuizCardProps) {
+  const options = useMemo(() => shuffle(flashcard.options ?? []), [flashcard.id]);
+  const pickedOption = options.find(option => option.text === picked);
+
+  const optionClassName = (option: CardOption) => {
+    if (!pickedOption) return "border-slate-200 hover:border-primary hover:bg-primary/5";
+    if (option.correct) return "border-secondary bg-secondary/10 text-secondary";
+    if (option === pickedOption) return "border-red-500 bg-red-50 text-red-600";
+    return "border-slate-200 opacity-60";
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl border border-slate-200 min-h-[400px] p-8 flex flex-col justify-center items-center text-center">
+      <div className="mb-6">
+        <span className="bg-primary/10 text-primary px-3 py-1 rounded-full text-sm font-medium">
+          Quiz
+        </span>
+      </div>
+      <h3 className="text-2xl lg:text-3xl font-semibold text-slate-900 mb-8 leading-relaxed">
+        {flashcard.question}
+      </h3>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 w-full max-w-2xl">
+        {options.map(option => (
+          <button
+            key={option.text}
+            className={`border-2 rounded-lg px-4 py-3 text-left text-slate-800 transition-colors ${optionClassName(option)}`}
+            onClick={() => onPick(option.text)}
+            disabled={pickedOption !== undefined}
+          >
+            {option.text}
+          </button>
+        ))}
+      </div>
+      {pickedOption && (
+        <p className={`mt-6 font-medium ${pickedOption.correct ? "text-secondary" : "text-red-600"}`}>
+          <i className={`fas ${pickedOption.correct ? "fa-check" : "fa-xmark"} mr-2`}></i>
+          {pickedOption.correct ? "Correct!" : `Not quite. The answer is: ${flashcard.answer}`}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import type { RegenerateFlashcardsRequest } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { RadioGroup, RadioGroupItem } from "./ui/radio-group";
+import { Textarea } from "./ui/textarea";
+
+interface RegenerateDialogProps {
+  videoId: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRegenerating: () => void;
+}
+
+export default function RegenerateDialog({ videoId, open, onOpenChange, onRegenerating }: RegenerateDialogProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [mode, setMode] = useState<RegenerateFlashcardsRequest["mode"]>("replace");
+  const [count, setCount] = useState("");
+  const [instructions, setInstructions] = useState("");
+
+  const regenerateMutation = useMutation({
+    mutationFn: async (request: RegenerateFlashcardsRequest) => {
+      const response = await fetch(`/api/videos/${videoId}/regenerate-flashcards`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(request),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || "Regeneration failed");
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/videos", videoId] });
+      onOpenChange(false);
+      onRegenerating();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Regeneration failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = () => {
+    const parsedCount = parseInt(count);
+    regenerateMutation.mutate({
+      mode,
+      count: Number.isNaN(parsedCount) ? undefined : parsedCount,
+      instructions: instructions.trim() || undefined,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Regenerate flashcards</DialogTitle>
+          <DialogDescription>
+            New cards are generated from the existing transcript, so the video isn't transcribed again.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <RadioGroup value={mode} onValueChange={(value) => setMode(value as RegenerateFlashcardsRequest["mode"])}>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="replace" id="regenerate-replace" />
+              <Label htmlFor="regenerate-replace">Replace current cards</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="append" id="regenerate-append" />
+              <Label htmlFor="regenerate-append">Add more cards</Label>
+            </div>
+          </RadioGroup>
+
+          <div className="space-y-2">
+            <Label htmlFor="regenerate-count">Number of cards</Label>
+            <Input
+              id="regenerate-count"
+              type="number"
+              min={1}
+              max={50}
+              placeholder="8-10"
+              value={count}
+              onChange={(e) => setCount(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="regenerate-instructions">Instructions (optional)</Label>
+            <Textarea
+              id="regenerate-instructions"
+              placeholder="e.g. Focus on definitions and formulas"
+              value={instructions}
+              onChange={(e) => setInstructions(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <button
+            className="bg-white text-slate-700 px-6 py-2 rounded-lg border border-slate-200 hover:bg-slate-50 transition-colors"
+            onClick={() => onOpenChange(false)}
+          >
+            Cancel
+          </button>
+          <button
+            className="bg-primary text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            onClick={handleSubmit}
+            disabled={regenerateMutation.isPending}
+          >
+            {regenerateMutation.isPending ? "Starting..." : "Regenerate"}
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
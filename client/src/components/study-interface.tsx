@@ -1,17 +1,36 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef, type MouseEvent } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import VideoPlayer from "./video-player";
+import VideoPlayer, { type VideoPlayerHandle } from "./video-player";
+import RegenerateDialog from "./regenerate-dialog";
+import GradeButtons from "./grade-buttons";
+import CardContent from "./card-content";
+import QuizCard from "./quiz-card";
+import { Switch } from "./ui/switch";
+import { Label } from "./ui/label";
 import { motion } from "framer-motion";
+import { formatDueIn, formatTimestamp } from "@/lib/utils";
+import type { CardReviewState, Flashcard, QuizAnswer, ReviewGrade } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
 
 interface StudyInterfaceProps {
   videoId: number;
   onComplete: () => void;
+  onRegenerate: () => void;
 }
 
-export default function StudyInterface({ videoId, onComplete }: StudyInterfaceProps) {
+export default function StudyInterface({ videoId, onComplete, onRegenerate }: StudyInterfaceProps) {
   const [isFlipped, setIsFlipped] = useState(false);
+  const [isRegenerateOpen, setIsRegenerateOpen] = useState(false);
   const [currentCardIndex, setCurrentCardIndex] = useState(0);
+  const [stopAtSegmentEnd, setStopAtSegmentEnd] = useState(true);
+  // In quiz mode multiple-choice cards are answered by picking an option
+  // instead of flipping.
+  const [quizMode, setQuizMode] = useState(true);
+  const [picked, setPicked] = useState<string | null>(null);
+  const playerRef = useRef<VideoPlayerHandle>(null);
+  const playerContainerRef = useRef<HTMLDivElement>(null);
   const queryClient = useQueryClient();
+  const { toast } = useToast();
 
   // Fetch video data
   const { data: videoData } = useQuery({
@@ -21,8 +40,13 @@ export default function StudyInterface({ videoId, onComplete }: StudyInterfacePr
       if (!response.ok) throw new Error("Failed to fetch video");
       return response.json();
     },
+    refetchInterval: (query) => query.state.data?.video?.status === "processing" ? 3000 : false,
   });
 
+  // Studying can start while cards are still being generated; new ones are
+  // picked up until generation finishes.
+  const isGenerating = videoData?.video?.status === "processing";
+
   // Fetch flashcards
   const { data: flashcardsData } = useQuery({
     queryKey: ["/api/videos", videoId, "flashcards"],
@@ -31,8 +55,18 @@ export default function StudyInterface({ videoId, onComplete }: StudyInterfacePr
       if (!response.ok) throw new Error("Failed to fetch flashcards");
       return response.json();
     },
+    refetchInterval: isGenerating ? 3000 : false,
   });
 
+  // Fetch the final set once, when generation finishes
+  const wasGenerating = useRef(isGenerating);
+  useEffect(() => {
+    if (wasGenerating.current && !isGenerating) {
+      queryClient.invalidateQueries({ queryKey: ["/api/videos", videoId, "flashcards"] });
+    }
+    wasGenerating.current = isGenerating;
+  }, [isGenerating, videoId, queryClient]);
+
   // Fetch or create study session
   const { data: sessionData } = useQuery({
     queryKey: ["/api/videos", videoId, "study-session"],
@@ -63,9 +97,75 @@ export default function StudyInterface({ videoId, onComplete }: StudyInterfacePr
     },
   });
 
+  // Spaced repetition state of each card, for showing when it is next due
+  const { data: reviewStatesData } = useQuery({
+    queryKey: ["/api/videos", videoId, "review-states"],
+    queryFn: async () => {
+      const response = await fetch(`/api/videos/${videoId}/review-states`);
+      if (!response.ok) throw new Error("Failed to fetch review states");
+      return response.json();
+    },
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async (review: { flashcardId: number; grade: ReviewGrade; responseTimeMs: number }) => {
+      const response = await fetch(`/api/flashcards/${review.flashcardId}/review`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ grade: review.grade, responseTimeMs: review.responseTimeMs }),
+      });
+      if (!response.ok) throw new Error("Failed to record review");
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: ["/api/videos", videoId, "review-states"],
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Review not saved",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const answerMutation = useMutation({
+    mutationFn: async (answer: QuizAnswer) => {
+      const response = await fetch(`/api/study-sessions/${sessionData?.session.id}/answers`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(answer),
+      });
+      if (!response.ok) throw new Error("Failed to record answer");
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/videos", videoId, "study-session"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/videos", videoId, "review-states"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Answer not saved",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // URL uploads play from their source; file uploads are served by the API.
+  const mediaUrl: string | undefined = videoData?.video?.videoUrl || videoData?.mediaUrl || undefined;
+  const isAudio = !videoData?.video?.videoUrl && videoData?.video?.mimeType?.startsWith("audio/");
+  const isDocument = videoData?.video?.sourceKind === "document";
+
   const flashcards = flashcardsData?.flashcards || [];
   const session = sessionData?.session;
   const currentCard = flashcards[currentCardIndex];
+  const reviewStates: CardReviewState[] = reviewStatesData?.states || [];
+  const currentReviewState = currentCard && reviewStates.find(state => state.flashcardId === currentCard.id);
+  const hasQuizCards = flashcards.some((card: Flashcard) => card.cardType === "multiple_choice");
+  const isQuizCard = quizMode && currentCard?.cardType === "multiple_choice";
 
   // Initialize current card index from session
   useEffect(() => {
@@ -110,22 +210,38 @@ export default function StudyInterface({ videoId, onComplete }: StudyInterfacePr
     }
   };
 
-  const handleMarkLearned = () => {
-    const completedCards = session?.completedCards || [];
-    if (!completedCards.includes(currentCardIndex)) {
-      updateSessionMutation.mutate({
-        completedCards: [...completedCards, currentCardIndex],
-      });
+  // Response time runs from when the question appears to the grade.
+  const shownAt = useRef(Date.now());
+  useEffect(() => {
+    shownAt.current = Date.now();
+    setPicked(null);
+  }, [currentCard?.id]);
+
+  // Grading records the review and moves on; the last card stays put while
+  // more are still being generated.
+  const handleGrade = (grade: ReviewGrade) => {
+    reviewMutation.mutate({ flashcardId: currentCard.id, grade, responseTimeMs: Date.now() - shownAt.current });
+    if (!(isGenerating && currentCardIndex === flashcards.length - 1)) {
+      handleNextCard();
     }
   };
 
-  const handleMarkReview = () => {
-    const reviewCards = session?.reviewCards || [];
-    if (!reviewCards.includes(currentCardIndex)) {
-      updateSessionMutation.mutate({
-        reviewCards: [...reviewCards, currentCardIndex],
-      });
-    }
+  // The pick is marked on the card at once and recorded in the background.
+  const handlePick = (option: string) => {
+    setPicked(option);
+    answerMutation.mutate({ flashcardId: currentCard.id, option, responseTimeMs: Date.now() - shownAt.current });
+  };
+
+  const handleWatchSource = (e: MouseEvent) => {
+    // Keep the click from flipping the card back to the question.
+    e.stopPropagation();
+    if (currentCard?.sourceStartTime == null) return;
+
+    playerContainerRef.current?.scrollIntoView({ behavior: "smooth", block: "center" });
+    playerRef.current?.seekTo(
+      currentCard.sourceStartTime,
+      stopAtSegmentEnd ? currentCard.sourceEndTime ?? undefined : undefined,
+    );
   };
 
   const handleShuffle = () => {
@@ -152,27 +268,37 @@ export default function StudyInterface({ videoId, onComplete }: StudyInterfacePr
       {/* Study Header */}
       <div className="flex flex-col lg:flex-row lg:items-start lg:justify-between mb-8 gap-6">
         <div className="flex-1">
-          <h2 className="text-2xl font-bold text-slate-900 mb-2">Video Study Session</h2>
+          <h2 className="text-2xl font-bold text-slate-900 mb-2">
+            {isDocument ? "Document Study Session" : "Video Study Session"}
+          </h2>
           <p className="text-slate-600 mb-4">
-            {flashcards.length} flashcards • Study at your own pace
+            {flashcards.length} flashcards • {isGenerating ? "More on the way..." : "Study at your own pace"}
           </p>
           {videoData?.video?.originalName && (
             <p className="text-sm text-slate-500">
-              Video: {videoData.video.originalName}
+              {isDocument ? "Document" : isAudio ? "Audio" : "Video"}: {videoData.video.originalName}
             </p>
           )}
         </div>
         
         {/* Video Player */}
-        {videoData?.video?.videoUrl && (
-          <div className="flex-1 max-w-md">
+        {mediaUrl && (
+          <div className="flex-1 max-w-md" ref={playerContainerRef}>
             <VideoPlayer 
-              videoUrl={videoData.video.videoUrl} 
-              className="w-full h-48"
+              ref={playerRef}
+              videoUrl={mediaUrl} 
+              kind={isAudio ? "audio" : "video"}
+              className={isAudio ? "w-full" : "w-full h-48"}
             />
           </div>
         )}
         <div className="flex items-center space-x-4 mt-4 lg:mt-0">
+          {hasQuizCards && (
+            <div className="flex items-center space-x-2">
+              <Switch id="quiz-mode" checked={quizMode} onCheckedChange={setQuizMode} />
+              <Label htmlFor="quiz-mode">Quiz mode</Label>
+            </div>
+          )}
           <div className="bg-white rounded-lg px-4 py-2 shadow-sm border border-slate-200">
             <span className="text-sm text-slate-600">Progress: </span>
             <span className="font-semibold text-slate-900">{currentCardIndex + 1}</span>
@@ -184,60 +310,95 @@ export default function StudyInterface({ videoId, onComplete }: StudyInterfacePr
 
       {/* Main Flashcard */}
       <div className="max-w-4xl mx-auto mb-8">
-        <motion.div 
-          className="relative bg-white rounded-2xl shadow-xl border border-slate-200 min-h-[400px] cursor-pointer"
-          onClick={handleCardFlip}
-          style={{ perspective: "1000px" }}
-        >
-          <motion.div
-            className="w-full h-full"
-            initial={false}
-            animate={{ rotateY: isFlipped ? 180 : 0 }}
-            transition={{ duration: 0.6 }}
-            style={{ transformStyle: "preserve-3d" }}
+        {isQuizCard ? (
+          <QuizCard flashcard={currentCard} picked={picked} onPick={handlePick} />
+        ) : (
+          <motion.div 
+            className="relative bg-white rounded-2xl shadow-xl border border-slate-200 min-h-[400px] cursor-pointer"
+            onClick={handleCardFlip}
+            style={{ perspective: "1000px" }}
           >
-            {/* Front Side (Question) */}
-            <div 
-              className="absolute inset-0 p-8 flex flex-col justify-center items-center text-center"
-              style={{ backfaceVisibility: "hidden" }}
+            <motion.div
+              className="w-full h-full"
+              initial={false}
+              animate={{ rotateY: isFlipped ? 180 : 0 }}
+              transition={{ duration: 0.6 }}
+              style={{ transformStyle: "preserve-3d" }}
             >
-              <div className="mb-6">
-                <span className="bg-primary/10 text-primary px-3 py-1 rounded-full text-sm font-medium">
-                  Question
-                </span>
+              {/* Front Side (Question) */}
+              <div 
+                className="absolute inset-0 p-8 flex flex-col justify-center items-center text-center"
+                style={{ backfaceVisibility: "hidden" }}
+              >
+                <div className="mb-6">
+                  <span className="bg-primary/10 text-primary px-3 py-1 rounded-full text-sm font-medium">
+                    {currentCard.cardType === "cloze" ? "Fill in the blank" : "Question"}
+                  </span>
+                </div>
+                <h3 className="text-2xl lg:text-3xl font-semibold text-slate-900 mb-6 leading-relaxed">
+                  <CardContent flashcard={currentCard} side="front" />
+                </h3>
+                <p className="text-slate-500 text-sm">
+                  <i className="fas fa-mouse-pointer mr-2"></i>
+                  Click to reveal answer
+                </p>
               </div>
-              <h3 className="text-2xl lg:text-3xl font-semibold text-slate-900 mb-6 leading-relaxed">
-                {currentCard.question}
-              </h3>
-              <p className="text-slate-500 text-sm">
-                <i className="fas fa-mouse-pointer mr-2"></i>
-                Click to reveal answer
-              </p>
-            </div>
             
-            {/* Back Side (Answer) */}
-            <div 
-              className="absolute inset-0 p-8 flex flex-col justify-center items-center text-center"
-              style={{ 
-                backfaceVisibility: "hidden", 
-                transform: "rotateY(180deg)" 
-              }}
-            >
-              <div className="mb-6">
-                <span className="bg-secondary/10 text-secondary px-3 py-1 rounded-full text-sm font-medium">
-                  Answer
-                </span>
+              {/* Back Side (Answer) */}
+              <div 
+                className="absolute inset-0 p-8 flex flex-col justify-center items-center text-center"
+                style={{ 
+                  backfaceVisibility: "hidden", 
+                  transform: "rotateY(180deg)" 
+                }}
+              >
+                <div className="mb-6">
+                  <span className="bg-secondary/10 text-secondary px-3 py-1 rounded-full text-sm font-medium">
+                    Answer
+                  </span>
+                </div>
+                <div className="text-lg lg:text-xl text-slate-800 leading-relaxed">
+                  <CardContent flashcard={currentCard} side="back" />
+                </div>
+                {currentCard.sourceLabel && (
+                  <p className="text-slate-500 text-sm mt-4">
+                    <i className="fas fa-bookmark mr-2"></i>
+                    From {currentCard.sourceLabel}
+                  </p>
+                )}
+                {currentCard.sourceStartTime != null && mediaUrl && (
+                  <div className="flex flex-col items-center mt-6 space-y-2">
+                    <button
+                      className="bg-primary/10 text-primary px-4 py-2 rounded-lg hover:bg-primary/20 transition-colors flex items-center text-sm font-medium"
+                      onClick={handleWatchSource}
+                    >
+                      <i className="fas fa-play mr-2"></i>
+                      Watch this part ({formatTimestamp(currentCard.sourceStartTime)})
+                    </button>
+                    {currentCard.sourceEndTime != null && (
+                      <label
+                        className="flex items-center text-xs text-slate-500 cursor-pointer"
+                        onClick={(e) => e.stopPropagation()}
+                      >
+                        <input
+                          type="checkbox"
+                          className="mr-2"
+                          checked={stopAtSegmentEnd}
+                          onChange={(e) => setStopAtSegmentEnd(e.target.checked)}
+                        />
+                        Stop at {formatTimestamp(currentCard.sourceEndTime)}
+                      </label>
+                    )}
+                  </div>
+                )}
+                <p className="text-slate-500 text-sm mt-6">
+                  <i className="fas fa-mouse-pointer mr-2"></i>
+                  Click to return to question
+                </p>
               </div>
-              <div className="text-lg lg:text-xl text-slate-800 leading-relaxed">
-                {currentCard.answer}
-              </div>
-              <p className="text-slate-500 text-sm mt-6">
-                <i className="fas fa-mouse-pointer mr-2"></i>
-                Click to return to question
-              </p>
-            </div>
+            </motion.div>
           </motion.div>
-        </motion.div>
+        )}
       </div>
 
       {/* Card Navigation */}
@@ -267,30 +428,38 @@ export default function StudyInterface({ videoId, onComplete }: StudyInterfacePr
           
           {/* Next Button */}
           <button 
-            className="bg-primary text-white px-6 py-3 rounded-lg hover:bg-blue-700 transition-colors flex items-center"
+            className="bg-primary text-white px-6 py-3 rounded-lg hover:bg-blue-700 transition-colors flex items-center disabled:opacity-50"
             onClick={handleNextCard}
+            disabled={isGenerating && currentCardIndex === flashcards.length - 1}
           >
-            {currentCardIndex === flashcards.length - 1 ? "Complete" : "Next"}
+            {currentCardIndex === flashcards.length - 1 ? (isGenerating ? "More coming..." : "Complete") : "Next"}
             <i className="fas fa-chevron-right ml-2"></i>
           </button>
         </div>
         
+        {/* Grading; in quiz mode the pick itself is the grade */}
+        <div className="mt-8 text-center">
+          {isQuizCard ? (
+            <p className="text-sm text-slate-600">
+              {picked ? "Move on with Next" : "Pick the answer you think is right"}
+            </p>
+          ) : (
+            <>
+              <p className="text-sm text-slate-600 mb-3">
+                {isFlipped ? "How well did you remember it?" : "Reveal the answer, then rate how well you remembered it"}
+              </p>
+              <GradeButtons onGrade={handleGrade} disabled={!isFlipped || reviewMutation.isPending} />
+            </>
+          )}
+          {currentReviewState && (
+            <p className="text-xs text-slate-500 mt-3">
+              Next review {formatDueIn(currentReviewState.dueAt)}
+            </p>
+          )}
+        </div>
+
         {/* Study Actions */}
         <div className="flex flex-col sm:flex-row justify-center items-center space-y-3 sm:space-y-0 sm:space-x-4 mt-8">
-          <button 
-            className="bg-secondary text-white px-6 py-3 rounded-lg hover:bg-green-600 transition-colors flex items-center"
-            onClick={handleMarkLearned}
-          >
-            <i className="fas fa-check mr-2"></i>
-            Mark as Learned
-          </button>
-          <button 
-            className="bg-accent text-white px-6 py-3 rounded-lg hover:bg-yellow-600 transition-colors flex items-center"
-            onClick={handleMarkReview}
-          >
-            <i className="fas fa-star mr-2"></i>
-            Need Review
-          </button>
           <button 
             className="bg-white text-slate-700 px-6 py-3 rounded-lg border border-slate-200 hover:bg-slate-50 transition-colors flex items-center"
             onClick={handleShuffle}
@@ -298,8 +467,22 @@ export default function StudyInterface({ videoId, onComplete }: StudyInterfacePr
             <i className="fas fa-shuffle mr-2"></i>
             Shuffle Cards
           </button>
+          <button 
+            className="bg-white text-slate-700 px-6 py-3 rounded-lg border border-slate-200 hover:bg-slate-50 transition-colors flex items-center"
+            onClick={() => setIsRegenerateOpen(true)}
+          >
+            <i className="fas fa-rotate mr-2"></i>
+            Regenerate Cards
+          </button>
         </div>
       </div>
+
+      <RegenerateDialog
+        videoId={videoId}
+        open={isRegenerateOpen}
+        onOpenChange={setIsRegenerateOpen}
+        onRegenerating={onRegenerate}
+      />
     </div>
   );
 }
@@ -1,21 +1,45 @@
 import { useRef, useState } from "react";
 import { useMutation } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
+import { findInterruptedUploads, resumableUpload, type UploadProgress } from "@/lib/resumable-upload";
+import type { GenerationOptions } from "@shared/schema";
+import GenerationOptionsPanel from "./generation-options-panel";
+
+function formatMegabytes(bytes: number) {
+  return (bytes / (1024 * 1024)).toFixed(1);
+}
 
 interface UploadSectionProps {
   onVideoUploaded: (videoId: number) => void;
+  onBatchUploaded: (deckId: number) => void;
 }
 
-export default function UploadSection({ onVideoUploaded }: UploadSectionProps) {
+export default function UploadSection({ onVideoUploaded, onBatchUploaded }: UploadSectionProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const documentInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
-  const [uploadMethod, setUploadMethod] = useState<'file' | 'url'>('url');
+  const [uploadMethod, setUploadMethod] = useState<'file' | 'url' | 'document' | 'subtitles'>('url');
+  const [subtitleFile, setSubtitleFile] = useState<File | null>(null);
+  const [sidecarVideoFile, setSidecarVideoFile] = useState<File | null>(null);
+  const [generationOptions, setGenerationOptions] = useState<GenerationOptions>({});
+  const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(null);
+  const [interruptedUploads, setInterruptedUploads] = useState(findInterruptedUploads);
   const [videoUrl, setVideoUrl] = useState('https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/BigBuckBunny.mp4');
 
+  // Only options the user actually changed are sent; the rest keep server defaults.
+  const chosenOptions = Object.values(generationOptions).some(value => value !== undefined)
+    ? generationOptions
+    : undefined;
+  const appendOptions = (formData: FormData) => {
+    if (chosenOptions) formData.append("options", JSON.stringify(chosenOptions));
+  };
+
   const uploadMutation = useMutation({
-    mutationFn: async (file: File) => {
+    mutationFn: async ({ video, subtitles }: { video?: File; subtitles?: File }) => {
       const formData = new FormData();
-      formData.append("video", file);
+      if (video) formData.append("video", video);
+      if (subtitles) formData.append("subtitles", subtitles);
+      appendOptions(formData);
 
       const response = await fetch("/api/videos/upload", {
         method: "POST",
@@ -45,6 +69,104 @@ export default function UploadSection({ onVideoUploaded }: UploadSectionProps) {
     },
   });
 
+  // Single media files go up in checksummed parts so a dropped connection or
+  // reload doesn't restart a large upload from zero.
+  const resumableUploadMutation = useMutation({
+    mutationFn: (file: File) => resumableUpload(file, {
+      onProgress: setUploadProgress,
+      generationOptions: chosenOptions,
+    }),
+    onSuccess: (data) => {
+      toast({
+        title: "Upload successful",
+        description: "Your video is being processed...",
+      });
+      onVideoUploaded(data.video.id);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Upload interrupted",
+        description: `${error.message}. Select the same file again to resume where it stopped.`,
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      setUploadProgress(null);
+      setInterruptedUploads(findInterruptedUploads());
+    },
+  });
+
+  const batchUploadMutation = useMutation({
+    mutationFn: async (files: File[]) => {
+      const formData = new FormData();
+      files.forEach(file => formData.append("files", file));
+      appendOptions(formData);
+
+      const response = await fetch("/api/decks/upload", {
+        method: "POST",
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || "Upload failed");
+      }
+
+      return response.json();
+    },
+    onSuccess: (data) => {
+      const skipped: { name: string; reason: string }[] = data.skipped || [];
+      toast({
+        title: "Upload successful",
+        description: skipped.length > 0
+          ? `Processing ${data.videos.length} files. Skipped: ${skipped.map(item => item.name).join(", ")}`
+          : `Processing ${data.videos.length} files...`,
+      });
+      onBatchUploaded(data.deck.id);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Upload failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const documentUploadMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append("document", file);
+      appendOptions(formData);
+
+      const response = await fetch("/api/documents/upload", {
+        method: "POST",
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || "Upload failed");
+      }
+
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Upload successful",
+        description: "Your document is being processed...",
+      });
+      onVideoUploaded(data.video.id);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Upload failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const urlUploadMutation = useMutation({
     mutationFn: async (url: string) => {
       const response = await fetch("/api/videos/upload-url", {
@@ -52,7 +174,7 @@ export default function UploadSection({ onVideoUploaded }: UploadSectionProps) {
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ videoUrl: url }),
+        body: JSON.stringify({ videoUrl: url, options: chosenOptions }),
       });
 
       if (!response.ok) {
@@ -78,16 +200,17 @@ export default function UploadSection({ onVideoUploaded }: UploadSectionProps) {
     },
   });
 
-  const handleFileSelect = (file: File) => {
-    // Validate file type
-    const allowedTypes = ["video/mp4", "video/quicktime", "video/x-msvideo"];
-    if (!allowedTypes.includes(file.type)) {
+  const validateVideoFile = (file: File) => {
+    // Validate file type. Browsers often leave the type empty for MKV/FLAC, so
+    // fall back to the extension; the server checks the actual file contents.
+    const isMediaType = file.type.startsWith("video/") || file.type.startsWith("audio/");
+    if (!isMediaType && !/\.(mp4|m4v|mov|avi|webm|mkv|mp3|m4a|wav|ogg|oga|flac)$/i.test(file.name)) {
       toast({
         title: "Invalid file type",
-        description: "Please upload an MP4, MOV, or AVI file.",
+        description: "Please upload a video (MP4, MOV, AVI, WebM, MKV) or audio file (MP3, M4A, WAV, OGG, FLAC).",
         variant: "destructive",
       });
-      return;
+      return false;
     }
 
     // Validate file size (500MB limit)
@@ -98,18 +221,93 @@ export default function UploadSection({ onVideoUploaded }: UploadSectionProps) {
         description: "Please upload a file smaller than 500MB.",
         variant: "destructive",
       });
+      return false;
+    }
+
+    return true;
+  };
+
+  const handleFileSelect = (file: File) => {
+    if (validateVideoFile(file)) {
+      resumableUploadMutation.mutate(file);
+    }
+  };
+
+  const handleDocumentSelect = (file: File) => {
+    if (!/\.(pdf|pptx|md|markdown)$/i.test(file.name)) {
+      toast({
+        title: "Invalid file type",
+        description: "Please upload a PDF, PPTX or Markdown file.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // Validate file size (100MB limit)
+    if (file.size > 100 * 1024 * 1024) {
+      toast({
+        title: "File too large",
+        description: "Please upload a document smaller than 100MB.",
+        variant: "destructive",
+      });
       return;
     }
 
-    uploadMutation.mutate(file);
+    documentUploadMutation.mutate(file);
   };
 
-  const handleDrop = (e: React.DragEvent) => {
+  const handleDocumentDrop = (e: React.DragEvent) => {
     e.preventDefault();
     const files = Array.from(e.dataTransfer.files);
     if (files.length > 0) {
+      handleDocumentSelect(files[0]);
+    }
+  };
+
+  const handleSubtitleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    if (!/\.(srt|vtt)$/i.test(file.name)) {
+      toast({
+        title: "Invalid subtitle file",
+        description: "Please choose an SRT or VTT file.",
+        variant: "destructive",
+      });
+      return;
+    }
+    setSubtitleFile(file);
+  };
+
+  const handleSidecarVideoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file && validateVideoFile(file)) {
+      setSidecarVideoFile(file);
+    }
+  };
+
+  const handleSubtitleUpload = () => {
+    if (!subtitleFile) return;
+    uploadMutation.mutate({ video: sidecarVideoFile ?? undefined, subtitles: subtitleFile });
+  };
+
+  // Several files, or any ZIP archive, go to the batch endpoint as one deck.
+  const handleFilesSelected = (files: File[]) => {
+    if (files.length === 0) return;
+    const hasArchive = files.some(file => /\.zip$/i.test(file.name));
+    if (files.length === 1 && !hasArchive) {
       handleFileSelect(files[0]);
+      return;
     }
+
+    const valid = files.filter(file => /\.(zip|pdf|pptx|md|markdown)$/i.test(file.name) || validateVideoFile(file));
+    if (valid.length > 0) {
+      batchUploadMutation.mutate(valid);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    handleFilesSelected(Array.from(e.dataTransfer.files));
   };
 
   const handleDragOver = (e: React.DragEvent) => {
@@ -117,10 +315,7 @@ export default function UploadSection({ onVideoUploaded }: UploadSectionProps) {
   };
 
   const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = Array.from(e.target.files || []);
-    if (files.length > 0) {
-      handleFileSelect(files[0]);
-    }
+    handleFilesSelected(Array.from(e.target.files || []));
   };
 
   const handleUrlUpload = () => {
@@ -184,6 +379,28 @@ export default function UploadSection({ onVideoUploaded }: UploadSectionProps) {
             <i className="fas fa-upload mr-2"></i>
             File Upload
           </button>
+          <button
+            className={`px-6 py-2 rounded-md font-medium transition-colors ${
+              uploadMethod === 'document'
+                ? 'bg-primary text-white'
+                : 'text-slate-600 hover:text-slate-900'
+            }`}
+            onClick={() => setUploadMethod('document')}
+          >
+            <i className="fas fa-file-alt mr-2"></i>
+            Document
+          </button>
+          <button
+            className={`px-6 py-2 rounded-md font-medium transition-colors ${
+              uploadMethod === 'subtitles'
+                ? 'bg-primary text-white'
+                : 'text-slate-600 hover:text-slate-900'
+            }`}
+            onClick={() => setUploadMethod('subtitles')}
+          >
+            <i className="fas fa-closed-captioning mr-2"></i>
+            Captions
+          </button>
         </div>
       </div>
 
@@ -224,6 +441,97 @@ export default function UploadSection({ onVideoUploaded }: UploadSectionProps) {
             </div>
           </div>
         </div>
+      ) : uploadMethod === 'document' ? (
+        <div
+          className="bg-white rounded-2xl shadow-lg border-2 border-dashed border-slate-300 hover:border-primary transition-colors p-12 text-center max-w-4xl mx-auto cursor-pointer"
+          onDrop={handleDocumentDrop}
+          onDragOver={handleDragOver}
+          onClick={() => documentInputRef.current?.click()}
+        >
+          <input
+            ref={documentInputRef}
+            type="file"
+            accept=".pdf,.pptx,.md,.markdown"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleDocumentSelect(file);
+            }}
+            className="hidden"
+          />
+
+          <div className="mb-6">
+            <i className="fas fa-file-alt text-6xl text-slate-400 mb-4"></i>
+            <h3 className="text-xl font-semibold text-slate-900 mb-2">Upload a Document</h3>
+            <p className="text-slate-600">Turn lecture slides, PDFs and notes into flashcards</p>
+          </div>
+
+          <div className="flex justify-center mb-6">
+            <button
+              className="bg-primary text-white px-8 py-3 rounded-lg font-medium hover:bg-blue-700 transition-colors"
+              disabled={documentUploadMutation.isPending}
+            >
+              <i className="fas fa-folder-open mr-2"></i>
+              {documentUploadMutation.isPending ? "Uploading..." : "Choose Document"}
+            </button>
+          </div>
+
+          <div className="text-sm text-slate-500">
+            <p className="mb-2">Supported formats: PDF, PPTX, Markdown (Max 100MB)</p>
+            <div className="flex justify-center space-x-4 text-xs">
+              <span className="bg-slate-100 px-3 py-1 rounded-full">.pdf</span>
+              <span className="bg-slate-100 px-3 py-1 rounded-full">.pptx</span>
+              <span className="bg-slate-100 px-3 py-1 rounded-full">.md</span>
+            </div>
+          </div>
+        </div>
+      ) : uploadMethod === 'subtitles' ? (
+        <div className="bg-white rounded-2xl shadow-lg border border-slate-200 p-12 text-center max-w-4xl mx-auto">
+          <div className="mb-6">
+            <i className="fas fa-closed-captioning text-6xl text-slate-400 mb-4"></i>
+            <h3 className="text-xl font-semibold text-slate-900 mb-2">Upload Captions</h3>
+            <p className="text-slate-600">Already have subtitles? Skip transcription and go straight to flashcards</p>
+          </div>
+
+          <div className="max-w-md mx-auto mb-6 space-y-4 text-left">
+            <label className="block">
+              <span className="text-sm font-medium text-slate-700">Subtitle file (required)</span>
+              <input
+                type="file"
+                accept=".srt,.vtt"
+                onChange={handleSubtitleFileChange}
+                className="mt-1 block w-full text-sm text-slate-600"
+              />
+            </label>
+            <label className="block">
+              <span className="text-sm font-medium text-slate-700">Video or audio file (optional)</span>
+              <input
+                type="file"
+                accept="video/*,audio/*,.mkv,.flac"
+                onChange={handleSidecarVideoChange}
+                className="mt-1 block w-full text-sm text-slate-600"
+              />
+            </label>
+          </div>
+
+          <div className="flex justify-center mb-6">
+            <button
+              className="bg-primary text-white px-8 py-3 rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:opacity-50"
+              onClick={handleSubtitleUpload}
+              disabled={uploadMutation.isPending || !subtitleFile}
+            >
+              <i className="fas fa-upload mr-2"></i>
+              {uploadMutation.isPending ? "Uploading..." : "Create Flashcards"}
+            </button>
+          </div>
+
+          <div className="text-sm text-slate-500">
+            <p className="mb-2">Captions are used as the transcript, so no transcription is needed</p>
+            <div className="flex justify-center space-x-4 text-xs">
+              <span className="bg-slate-100 px-3 py-1 rounded-full">.srt</span>
+              <span className="bg-slate-100 px-3 py-1 rounded-full">.vtt</span>
+            </div>
+          </div>
+        </div>
       ) : (
         <div 
           className="bg-white rounded-2xl shadow-lg border-2 border-dashed border-slate-300 hover:border-primary transition-colors p-12 text-center max-w-4xl mx-auto cursor-pointer"
@@ -234,37 +542,68 @@ export default function UploadSection({ onVideoUploaded }: UploadSectionProps) {
           <input
             ref={fileInputRef}
             type="file"
-            accept="video/*"
+            multiple
+            accept="video/*,audio/*,.mkv,.flac,.zip"
             onChange={handleFileInputChange}
             className="hidden"
           />
           
           <div className="mb-6">
             <i className="fas fa-cloud-upload-alt text-6xl text-slate-400 mb-4"></i>
-            <h3 className="text-xl font-semibold text-slate-900 mb-2">Upload Your Video</h3>
-            <p className="text-slate-600">Drag and drop your video file here, or click to browse</p>
+            <h3 className="text-xl font-semibold text-slate-900 mb-2">Upload Your Video or Audio</h3>
+            <p className="text-slate-600">Drag and drop a video, lecture recording or podcast here, or click to browse</p>
+            <p className="text-slate-500 text-sm mt-1">Select several files or a ZIP archive to upload a whole module as one deck</p>
           </div>
           
+          {interruptedUploads.length > 0 && !resumableUploadMutation.isPending && (
+            <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 mb-6 text-left max-w-2xl mx-auto">
+              <p className="text-amber-800 text-sm">
+                <i className="fas fa-history mr-2"></i>
+                Unfinished upload{interruptedUploads.length > 1 ? "s" : ""}: {interruptedUploads.map(upload => upload.originalName).join(", ")}.
+                Select the same file to resume where it stopped.
+              </p>
+            </div>
+          )}
+
+          {uploadProgress && (
+            <div className="max-w-2xl mx-auto mb-6" onClick={(e) => e.stopPropagation()}>
+              <div className="flex justify-between items-center mb-2">
+                <span className="text-sm font-medium text-slate-700">Uploading</span>
+                <span className="text-sm text-slate-600">
+                  {formatMegabytes(uploadProgress.uploadedBytes)} of {formatMegabytes(uploadProgress.totalBytes)} MB
+                </span>
+              </div>
+              <div className="w-full bg-slate-200 rounded-full h-3">
+                <div
+                  className="bg-primary h-3 rounded-full transition-all duration-300"
+                  style={{ width: `${uploadProgress.totalBytes > 0 ? (uploadProgress.uploadedBytes / uploadProgress.totalBytes) * 100 : 0}%` }}
+                ></div>
+              </div>
+            </div>
+          )}
+
           <div className="flex justify-center mb-6">
             <button 
               className="bg-primary text-white px-8 py-3 rounded-lg font-medium hover:bg-blue-700 transition-colors"
-              disabled={uploadMutation.isPending}
+              disabled={resumableUploadMutation.isPending || batchUploadMutation.isPending}
             >
               <i className="fas fa-folder-open mr-2"></i>
-              {uploadMutation.isPending ? "Uploading..." : "Choose File"}
+              {resumableUploadMutation.isPending || batchUploadMutation.isPending ? "Uploading..." : "Choose Files"}
             </button>
           </div>
           
           <div className="text-sm text-slate-500">
-            <p className="mb-2">Supported formats: MP4, MOV, AVI (Max 500MB)</p>
+            <p className="mb-2">Supported formats: MP4, MOV, AVI, WebM, MKV, MP3, M4A, WAV, OGG, FLAC, ZIP (Max 500MB each)</p>
             <div className="flex justify-center space-x-4 text-xs">
-              <span className="bg-slate-100 px-3 py-1 rounded-full">.mp4</span>
-              <span className="bg-slate-100 px-3 py-1 rounded-full">.mov</span>
-              <span className="bg-slate-100 px-3 py-1 rounded-full">.avi</span>
+              <span className="bg-slate-100 px-3 py-1 rounded-full">Video</span>
+              <span className="bg-slate-100 px-3 py-1 rounded-full">Audio</span>
+              <span className="bg-slate-100 px-3 py-1 rounded-full">Podcasts</span>
             </div>
           </div>
         </div>
       )}
+
+      <GenerationOptionsPanel value={generationOptions} onChange={setGenerationOptions} />
     </div>
   );
 }
@@ -1,12 +1,108 @@
 
-import React from 'react';
+import React, { forwardRef, useEffect, useImperativeHandle, useRef } from 'react';
 
 interface VideoPlayerProps {
   videoUrl?: string;
+  // Audio uploads (podcasts, lectures) get a compact audio player instead.
+  kind?: 'audio' | 'video';
   className?: string;
 }
 
-export default function VideoPlayer({ videoUrl, className = "" }: VideoPlayerProps) {
+export interface VideoPlayerHandle {
+  // Jumps to `start` (seconds) and plays; pauses again at `end` when given.
+  seekTo: (start: number, end?: number) => void;
+}
+
+type EmbedKind = 'youtube' | 'vimeo';
+
+function getYouTubeId(videoUrl: string): string {
+  if (videoUrl.includes('youtube.com/watch?v=')) {
+    return videoUrl.split('v=')[1]?.split('&')[0] || '';
+  }
+  if (videoUrl.includes('youtu.be/')) {
+    return videoUrl.split('youtu.be/')[1]?.split('?')[0] || '';
+  }
+  return '';
+}
+
+function getVimeoId(videoUrl: string): string {
+  return videoUrl.split('vimeo.com/')[1]?.split('?')[0] || '';
+}
+
+// Both embeds accept commands over postMessage once their JS API is enabled.
+function postEmbedCommand(iframe: HTMLIFrameElement | null, kind: EmbedKind, command: 'seek' | 'play' | 'pause', seconds?: number) {
+  const target = iframe?.contentWindow;
+  if (!target) return;
+
+  if (kind === 'youtube') {
+    const messages = {
+      seek: { event: 'command', func: 'seekTo', args: [seconds, true] },
+      play: { event: 'command', func: 'playVideo', args: [] },
+      pause: { event: 'command', func: 'pauseVideo', args: [] },
+    };
+    target.postMessage(JSON.stringify(messages[command]), 'https://www.youtube.com');
+  } else {
+    const messages = {
+      seek: { method: 'setCurrentTime', value: seconds },
+      play: { method: 'play' },
+      pause: { method: 'pause' },
+    };
+    target.postMessage(JSON.stringify(messages[command]), 'https://player.vimeo.com');
+  }
+}
+
+const VideoPlayer = forwardRef<VideoPlayerHandle, VideoPlayerProps>(function VideoPlayer({ videoUrl, kind = 'video', className = "" }, ref) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const stopAtRef = useRef<number | null>(null);
+  const stopTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const youTubeId = videoUrl && (videoUrl.includes('youtube.com') || videoUrl.includes('youtu.be')) ? getYouTubeId(videoUrl) : '';
+  const vimeoId = videoUrl && !youTubeId && videoUrl.includes('vimeo.com') ? getVimeoId(videoUrl) : '';
+  const embedKind: EmbedKind | null = youTubeId ? 'youtube' : vimeoId ? 'vimeo' : null;
+
+  useEffect(() => () => {
+    if (stopTimerRef.current) clearTimeout(stopTimerRef.current);
+  }, []);
+
+  useImperativeHandle(ref, () => ({
+    seekTo(start: number, end?: number) {
+      if (stopTimerRef.current) {
+        clearTimeout(stopTimerRef.current);
+        stopTimerRef.current = null;
+      }
+
+      if (embedKind) {
+        postEmbedCommand(iframeRef.current, embedKind, 'seek', start);
+        postEmbedCommand(iframeRef.current, embedKind, 'play');
+        // Embeds don't report playback time without extra wiring, so stop on a timer.
+        if (end !== undefined && end > start) {
+          stopTimerRef.current = setTimeout(() => {
+            postEmbedCommand(iframeRef.current, embedKind, 'pause');
+          }, (end - start) * 1000);
+        }
+        return;
+      }
+
+      const media = videoRef.current ?? audioRef.current;
+      if (!media) return;
+      stopAtRef.current = end !== undefined && end > start ? end : null;
+      media.currentTime = start;
+      media.play().catch(() => {
+        // Autoplay can be blocked; the video is still positioned at the start.
+      });
+    },
+  }), [embedKind]);
+
+  const handleTimeUpdate = () => {
+    const media = videoRef.current ?? audioRef.current;
+    if (media && stopAtRef.current !== null && media.currentTime >= stopAtRef.current) {
+      stopAtRef.current = null;
+      media.pause();
+    }
+  };
+
   if (!videoUrl) {
     return (
       <div className={`bg-slate-100 rounded-lg flex items-center justify-center ${className}`}>
@@ -15,60 +111,71 @@ export default function VideoPlayer({ videoUrl, className = "" }: VideoPlayerPro
     );
   }
 
-  // YouTube URL detection and embedding
-  if (videoUrl.includes('youtube.com') || videoUrl.includes('youtu.be')) {
-    let videoId = '';
-    
-    if (videoUrl.includes('youtube.com/watch?v=')) {
-      videoId = videoUrl.split('v=')[1]?.split('&')[0] || '';
-    } else if (videoUrl.includes('youtu.be/')) {
-      videoId = videoUrl.split('youtu.be/')[1]?.split('?')[0] || '';
-    }
-    
-    if (videoId) {
-      return (
-        <div className={`relative ${className}`}>
-          <iframe
-            src={`https://www.youtube.com/embed/${videoId}`}
-            title="YouTube video player"
-            frameBorder="0"
-            allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
-            allowFullScreen
-            className="w-full h-full rounded-lg"
-          ></iframe>
+  if (kind === 'audio') {
+    return (
+      <div className={`bg-slate-100 rounded-lg p-4 flex flex-col justify-center ${className}`}>
+        <div className="flex items-center text-slate-600 text-sm mb-3">
+          <i className="fas fa-headphones mr-2"></i>
+          Audio
         </div>
-      );
-    }
+        <audio
+          ref={audioRef}
+          src={videoUrl}
+          controls
+          className="w-full"
+          preload="metadata"
+          onTimeUpdate={handleTimeUpdate}
+        >
+          Your browser does not support the audio tag.
+        </audio>
+      </div>
+    );
+  }
+
+  // YouTube URL detection and embedding
+  if (youTubeId) {
+    return (
+      <div className={`relative ${className}`}>
+        <iframe
+          ref={iframeRef}
+          src={`https://www.youtube.com/embed/${youTubeId}?enablejsapi=1`}
+          title="YouTube video player"
+          frameBorder="0"
+          allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
+          allowFullScreen
+          className="w-full h-full rounded-lg"
+        ></iframe>
+      </div>
+    );
   }
 
   // Vimeo URL detection and embedding
-  if (videoUrl.includes('vimeo.com')) {
-    const videoId = videoUrl.split('vimeo.com/')[1]?.split('?')[0] || '';
-    
-    if (videoId) {
-      return (
-        <div className={`relative ${className}`}>
-          <iframe
-            src={`https://player.vimeo.com/video/${videoId}`}
-            title="Vimeo video player"
-            frameBorder="0"
-            allow="autoplay; fullscreen; picture-in-picture"
-            allowFullScreen
-            className="w-full h-full rounded-lg"
-          ></iframe>
-        </div>
-      );
-    }
+  if (vimeoId) {
+    return (
+      <div className={`relative ${className}`}>
+        <iframe
+          ref={iframeRef}
+          src={`https://player.vimeo.com/video/${vimeoId}?api=1`}
+          title="Vimeo video player"
+          frameBorder="0"
+          allow="autoplay; fullscreen; picture-in-picture"
+          allowFullScreen
+          className="w-full h-full rounded-lg"
+        ></iframe>
+      </div>
+    );
   }
 
   // Direct video file URLs
-  if (videoUrl.match(/\.(mp4|webm|ogg|mov|avi)$/i)) {
+  if (videoUrl.match(/\.(mp4|webm|ogg|mov|avi|mkv)$/i)) {
     return (
       <video
+        ref={videoRef}
         src={videoUrl}
         controls
         className={`w-full rounded-lg ${className}`}
         preload="metadata"
+        onTimeUpdate={handleTimeUpdate}
       >
         Your browser does not support the video tag.
       </video>
@@ -79,10 +186,12 @@ export default function VideoPlayer({ videoUrl, className = "" }: VideoPlayerPro
   return (
     <div className={`relative ${className}`}>
       <video
+        ref={videoRef}
         src={videoUrl}
         controls
         className="w-full h-full rounded-lg"
         preload="metadata"
+        onTimeUpdate={handleTimeUpdate}
         onError={(e) => {
           console.warn('Failed to load video:', videoUrl);
         }}
@@ -94,4 +203,6 @@ export default function VideoPlayer({ videoUrl, className = "" }: VideoPlayerPro
       </div>
     </div>
   );
-}
+});
+
+export default VideoPlayer;
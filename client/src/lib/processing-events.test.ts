@@ -0,0 +1,69 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { TranscriptAssessment, Video } from "@shared/schema";
+import { applyProcessingEvent, overridableAssessment, type VideoResponse } from "./processing-events";
+
+const assessment: TranscriptAssessment = {
+  passed: false,
+  issues: [{ code: "wrong_language", message: "The audio was detected as Spanish, but English was expected." }],
+  educationalScore: 0.7,
+  language: "spanish",
+  averageLogprob: null,
+  noSpeechRatio: null,
+};
+
+// The cached response as a processing video first loads, before any
+// transcript has been assessed.
+function processingVideo(): VideoResponse {
+  return {
+    video: {
+      id: 1,
+      status: "processing",
+      processingProgress: 60,
+      errorCode: null,
+      errorMessage: null,
+      failedStage: null,
+      transcriptAssessment: null,
+    } as Video,
+    job: { id: 7, type: "process-video", status: "running", attempts: 1, maxAttempts: 3, lastError: null, nextRunAt: null },
+    mediaUrl: null,
+  };
+}
+
+describe("applyProcessingEvent", () => {
+  test("offers the override after a streamed transcript quality failure", () => {
+    const data = applyProcessingEvent(processingVideo(), {
+      type: "failed",
+      failure: { errorCode: "transcript_quality", errorMessage: assessment.issues[0].message, failedStage: "generate" },
+      transcriptAssessment: assessment,
+    });
+
+    assert.equal(data.video.status, "failed");
+    assert.equal(data.video.processingProgress, 0);
+    assert.deepEqual(overridableAssessment(data.video), assessment);
+  });
+
+  test("offers no override for other failures", () => {
+    const data = applyProcessingEvent(processingVideo(), {
+      type: "failed",
+      failure: { errorCode: "rate_limited", errorMessage: "Try again later", failedStage: "generate" },
+      transcriptAssessment: null,
+    });
+
+    assert.equal(data.video.errorCode, "rate_limited");
+    assert.equal(overridableAssessment(data.video), null);
+  });
+
+  test("tracks progress and retries", () => {
+    let data = applyProcessingEvent(processingVideo(), { type: "retrying", attempts: 2, maxAttempts: 3, retryAt: "2026-01-01T00:00:00Z" });
+    assert.deepEqual([data.job?.status, data.job?.attempts], ["queued", 2]);
+
+    data = applyProcessingEvent(data, { type: "progress", status: "processing", progress: 80, stage: "generate" });
+    assert.deepEqual([data.video.processingProgress, data.job?.status], [80, "running"]);
+  });
+
+  test("leaves the response alone for live output", () => {
+    const data = processingVideo();
+    assert.equal(applyProcessingEvent(data, { type: "transcript", text: "Hello", partial: true }), data);
+  });
+});
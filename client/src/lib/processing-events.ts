@@ -0,0 +1,50 @@
+// Keeps the cached GET /api/videos/:id response in step with the events
+// streamed from /api/videos/:id/events while a source is processed.
+
+import type { Job, ProcessingEvent, TranscriptAssessment, Video } from "@shared/schema";
+
+// GET /api/videos/:id
+export interface VideoResponse {
+  video: Video;
+  job: (Pick<Job, "id" | "type" | "status" | "attempts" | "maxAttempts" | "lastError"> & { nextRunAt: string | null }) | null;
+  mediaUrl: string | null;
+}
+
+// Merges what an event says about the video or its job into `data`. Events
+// that only carry live output (transcript text, saved cards) leave it as is.
+export function applyProcessingEvent(data: VideoResponse, event: ProcessingEvent): VideoResponse {
+  switch (event.type) {
+    case "progress":
+      return {
+        ...data,
+        video: { ...data.video, status: event.status, processingProgress: event.progress },
+        job: data.job && { ...data.job, status: "running" },
+      };
+    case "retrying":
+      return {
+        ...data,
+        job: data.job && { ...data.job, status: "queued", attempts: event.attempts, maxAttempts: event.maxAttempts },
+      };
+    case "failed":
+      return {
+        ...data,
+        video: {
+          ...data.video,
+          status: "failed",
+          processingProgress: 0,
+          ...event.failure,
+          transcriptAssessment: event.transcriptAssessment,
+        },
+      };
+    default:
+      return data;
+  }
+}
+
+// The assessment behind a failed transcript quality check, which the user
+// can override, or null when the video failed for another reason.
+export function overridableAssessment(video: Video | undefined): TranscriptAssessment | null {
+  return video?.status === "failed" && video.errorCode === "transcript_quality"
+    ? video.transcriptAssessment
+    : null;
+}
@@ -0,0 +1,205 @@
+// Uploads large files in parts through /api/uploads. The session id is kept in
+// localStorage keyed by the file's name, size and modification time, so picking
+// the same file again after a reload or dropped connection only sends the
+// parts the server doesn't have yet.
+
+import type { GenerationOptions } from "@shared/schema";
+
+const STORAGE_PREFIX = "resumable-upload:";
+const PARALLEL_PARTS = 3;
+const MAX_PART_ATTEMPTS = 4;
+
+export interface UploadProgress {
+  uploadedBytes: number;
+  totalBytes: number;
+}
+
+export interface InterruptedUpload {
+  originalName: string;
+  fileSize: number;
+}
+
+interface UploadSessionSummary {
+  id: string;
+  fileSize: number;
+  partSize: number;
+  totalParts: number;
+  receivedParts: number[];
+  status: "active" | "completed";
+}
+
+interface StoredUpload extends InterruptedUpload {
+  id: string;
+}
+
+class UploadRequestError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = "UploadRequestError";
+  }
+}
+
+function storageKey(file: File) {
+  return `${STORAGE_PREFIX}${file.name}:${file.size}:${file.lastModified}`;
+}
+
+// Uploads left unfinished in an earlier visit, for the "select it again" prompt.
+export function findInterruptedUploads(): InterruptedUpload[] {
+  const uploads: InterruptedUpload[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key?.startsWith(STORAGE_PREFIX)) continue;
+    try {
+      const { originalName, fileSize } = JSON.parse(localStorage.getItem(key)!) as StoredUpload;
+      uploads.push({ originalName, fileSize });
+    } catch {
+      localStorage.removeItem(key);
+    }
+  }
+  return uploads;
+}
+
+async function requestJson<T>(method: string, url: string, body?: unknown): Promise<T> {
+  const response = await fetch(url, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : {},
+    body: body ? JSON.stringify(body) : undefined,
+    credentials: "include",
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new UploadRequestError(response.status, data.message || "Upload failed");
+  }
+  return data;
+}
+
+// Reuses the stored session when the server still has it; otherwise starts over.
+async function openSession(file: File): Promise<UploadSessionSummary> {
+  const stored = localStorage.getItem(storageKey(file));
+  if (stored) {
+    try {
+      const { id } = JSON.parse(stored) as StoredUpload;
+      const { upload } = await requestJson<{ upload: UploadSessionSummary }>("GET", `/api/uploads/${id}`);
+      return upload;
+    } catch (error) {
+      if (!(error instanceof UploadRequestError) || error.status !== 404) throw error;
+    }
+  }
+
+  const { upload } = await requestJson<{ upload: UploadSessionSummary }>("POST", "/api/uploads", {
+    originalName: file.name,
+    fileSize: file.size,
+    mimeType: file.type || undefined,
+  });
+  const record: StoredUpload = { id: upload.id, originalName: file.name, fileSize: file.size };
+  localStorage.setItem(storageKey(file), JSON.stringify(record));
+  return upload;
+}
+
+async function sha256Hex(blob: Blob) {
+  const digest = await crypto.subtle.digest("SHA-256", await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, "0")).join("");
+}
+
+// XHR rather than fetch, since only XHR reports upload progress.
+function putPart(url: string, blob: Blob, checksum: string, onProgress: (loaded: number) => void) {
+  return new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("PUT", url);
+    xhr.withCredentials = true;
+    xhr.setRequestHeader("Content-Type", "application/octet-stream");
+    xhr.setRequestHeader("X-Content-SHA256", checksum);
+    xhr.upload.onprogress = (e) => onProgress(e.loaded);
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve();
+        return;
+      }
+      let message = "Part upload failed";
+      try {
+        message = JSON.parse(xhr.responseText).message || message;
+      } catch {}
+      reject(new UploadRequestError(xhr.status, message));
+    };
+    xhr.onerror = () => reject(new UploadRequestError(0, "Network error while uploading"));
+    xhr.send(blob);
+  });
+}
+
+// Network errors, server errors and checksum mismatches (a part corrupted in
+// transit) are worth another attempt; other client errors are not.
+function isRetryable(error: unknown) {
+  return error instanceof UploadRequestError && (error.status === 0 || error.status === 422 || error.status >= 500);
+}
+
+export interface ResumableUploadOptions {
+  onProgress?: (progress: UploadProgress) => void;
+  // Sent when the upload completes, to shape the generated cards.
+  generationOptions?: GenerationOptions;
+}
+
+export async function resumableUpload(
+  file: File,
+  { onProgress, generationOptions }: ResumableUploadOptions = {},
+): Promise<{ video: { id: number } }> {
+  const session = await openSession(file);
+
+  if (session.status === "active") {
+    const received = new Set(session.receivedParts);
+    const pending = Array.from({ length: session.totalParts }, (_, i) => i).filter(i => !received.has(i));
+    const partBytes = (index: number) => Math.min(session.partSize, file.size - index * session.partSize);
+
+    let doneBytes = session.receivedParts.reduce((sum, index) => sum + partBytes(index), 0);
+    const inFlight = new Map<number, number>();
+    const report = () => {
+      const sending = Array.from(inFlight.values()).reduce((sum, loaded) => sum + loaded, 0);
+      onProgress?.({ uploadedBytes: doneBytes + sending, totalBytes: file.size });
+    };
+    report();
+
+    const uploadPart = async (index: number) => {
+      const start = index * session.partSize;
+      const blob = file.slice(start, start + partBytes(index));
+      const checksum = await sha256Hex(blob);
+
+      for (let attempt = 1; ; attempt++) {
+        try {
+          await putPart(`/api/uploads/${session.id}/parts/${index}`, blob, checksum, (loaded) => {
+            inFlight.set(index, loaded);
+            report();
+          });
+          break;
+        } catch (error) {
+          inFlight.delete(index);
+          if (attempt >= MAX_PART_ATTEMPTS || !isRetryable(error)) throw error;
+          await new Promise(resolve => setTimeout(resolve, 1000 * 2 ** (attempt - 1)));
+        }
+      }
+
+      inFlight.delete(index);
+      doneBytes += blob.size;
+      report();
+    };
+
+    const workers = Array.from({ length: Math.min(PARALLEL_PARTS, pending.length) }, async () => {
+      for (let index = pending.shift(); index !== undefined; index = pending.shift()) {
+        await uploadPart(index);
+      }
+    });
+    await Promise.all(workers);
+  }
+
+  try {
+    const result = await requestJson<{ video: { id: number } }>("POST", `/api/uploads/${session.id}/complete`, {
+      options: generationOptions,
+    });
+    localStorage.removeItem(storageKey(file));
+    return result;
+  } catch (error) {
+    // A rejected file (e.g. not actually media) won't get better by resuming.
+    if (error instanceof UploadRequestError && error.status === 400) {
+      localStorage.removeItem(storageKey(file));
+    }
+    throw error;
+  }
+}
@@ -4,3 +4,23 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Formats seconds as m:ss, or h:mm:ss for an hour or more.
+export function formatTimestamp(seconds: number) {
+  const total = Math.max(0, Math.floor(seconds))
+  const h = Math.floor(total / 3600)
+  const m = Math.floor((total % 3600) / 60)
+  const s = String(total % 60).padStart(2, "0")
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`
+}
+
+// Describes how long until a review is due, e.g. "now", "in 10 minutes", "in 6 days".
+export function formatDueIn(dueAt: string, now = Date.now()) {
+  const minutes = Math.round((new Date(dueAt).getTime() - now) / 60000)
+  if (minutes <= 0) return "now"
+  if (minutes < 60) return `in ${minutes} minute${minutes === 1 ? "" : "s"}`
+  const hours = Math.round(minutes / 60)
+  if (hours < 24) return `in ${hours} hour${hours === 1 ? "" : "s"}`
+  const days = Math.round(hours / 24)
+  return `in ${days} day${days === 1 ? "" : "s"}`
+}
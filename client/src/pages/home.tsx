@@ -4,29 +4,49 @@ import { useAuth } from "../contexts/auth-context";
 import LoginGate from "../components/login-gate";
 import UploadSection from "@/components/upload-section";
 import ProcessingSection from "@/components/processing-section";
+import BatchProcessingSection from "@/components/batch-processing-section";
 import StudyInterface from "@/components/study-interface";
 import CompletionSection from "@/components/completion-section";
 
-type AppState = "upload" | "processing" | "study" | "completion";
+type AppState = "upload" | "processing" | "batch" | "study" | "completion";
 
 export default function Home() {
   const [currentState, setCurrentState] = useState<AppState>("upload");
   const [currentVideoId, setCurrentVideoId] = useState<number | null>(null);
+  const [currentDeckId, setCurrentDeckId] = useState<number | null>(null);
 
   const handleVideoUploaded = (videoId: number) => {
+    setCurrentDeckId(null);
     setCurrentVideoId(videoId);
     setCurrentState("processing");
   };
 
+  const handleBatchUploaded = (deckId: number) => {
+    setCurrentDeckId(deckId);
+    setCurrentVideoId(null);
+    setCurrentState("batch");
+  };
+
+  const handleStudyDeckItem = (videoId: number) => {
+    setCurrentVideoId(videoId);
+    setCurrentState("study");
+  };
+
   const handleProcessingComplete = () => {
     setCurrentState("study");
   };
 
+  const handleRegenerate = () => {
+    setCurrentState("processing");
+  };
+
+  // Finishing one file of a batch returns to the deck to pick the next one.
   const handleStudyComplete = () => {
-    setCurrentState("completion");
+    setCurrentState(currentDeckId ? "batch" : "completion");
   };
 
   const handleStartOver = () => {
+    setCurrentDeckId(null);
     setCurrentVideoId(null);
     setCurrentState("upload");
   };
@@ -38,7 +58,10 @@ export default function Home() {
       <LoginGate>
         <main className="max-w-4xl mx-auto p-8">
           {currentState === "upload" && (
-            <UploadSection onVideoUploaded={handleVideoUploaded} />
+            <UploadSection
+              onVideoUploaded={handleVideoUploaded}
+              onBatchUploaded={handleBatchUploaded}
+            />
           )}
 
           {currentState === "processing" && currentVideoId && (
@@ -48,10 +71,19 @@ export default function Home() {
             />
           )}
 
+          {currentState === "batch" && currentDeckId && (
+            <BatchProcessingSection
+              deckId={currentDeckId}
+              onStudy={handleStudyDeckItem}
+              onStartOver={handleStartOver}
+            />
+          )}
+
           {currentState === "study" && currentVideoId && (
             <StudyInterface 
               videoId={currentVideoId}
               onComplete={handleStudyComplete}
+              onRegenerate={handleRegenerate}
             />
           )}
 
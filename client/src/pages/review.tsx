@@ -0,0 +1,186 @@
+import { useEffect, useRef, useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type { DueCard, ReviewGrade, ReviewQueueOrder } from "@shared/schema";
+import Header from "@/components/header";
+import LoginGate from "@/components/login-gate";
+import GradeButtons from "@/components/grade-buttons";
+import CardContent from "@/components/card-content";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+
+interface ReviewQueueResponse {
+  cards: DueCard[];
+  counts: { review: number; new: number };
+  remainingToday: { review: number; new: number };
+}
+
+const orderLabels: Record<ReviewQueueOrder, string> = {
+  oldest: "Most overdue first",
+  deck: "Grouped by deck",
+  random: "Random",
+};
+
+// Reviews everything due today across all of the user's sources.
+export default function Review() {
+  const { toast } = useToast();
+  const [order, setOrder] = useState<ReviewQueueOrder>("oldest");
+  const [position, setPosition] = useState(0);
+  const [isFlipped, setIsFlipped] = useState(false);
+
+  // The queue is fetched once per order and worked through locally, so
+  // grading a card doesn't reshuffle the rest.
+  const { data, isLoading, refetch, isFetching } = useQuery<ReviewQueueResponse>({
+    queryKey: ["/api/reviews/due", order],
+    queryFn: async () => {
+      const params = new URLSearchParams({ order, timezoneOffset: String(new Date().getTimezoneOffset()) });
+      const response = await fetch(`/api/reviews/due?${params}`);
+      if (!response.ok) throw new Error("Failed to fetch due reviews");
+      return response.json();
+    },
+    staleTime: 0,
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async (review: { flashcardId: number; grade: ReviewGrade; responseTimeMs: number }) => {
+      const response = await fetch(`/api/flashcards/${review.flashcardId}/review`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ grade: review.grade, responseTimeMs: review.responseTimeMs }),
+      });
+      if (!response.ok) throw new Error("Failed to record review");
+      return response.json();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Review not saved",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const cards = data?.cards ?? [];
+  const current = cards[position];
+
+  // Response time runs from when the question appears to the grade.
+  const shownAt = useRef(Date.now());
+  useEffect(() => {
+    shownAt.current = Date.now();
+  }, [current]);
+
+  const handleGrade = (grade: ReviewGrade) => {
+    reviewMutation.mutate({ flashcardId: current.flashcard.id, grade, responseTimeMs: Date.now() - shownAt.current });
+    setPosition(position + 1);
+    setIsFlipped(false);
+  };
+
+  const handleOrderChange = (next: ReviewQueueOrder) => {
+    setOrder(next);
+    setPosition(0);
+    setIsFlipped(false);
+  };
+
+  // Cards graded "again" come back after a short delay, so check for more.
+  const handleCheckAgain = async () => {
+    await refetch();
+    setPosition(0);
+    setIsFlipped(false);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      <LoginGate>
+        <main className="max-w-4xl mx-auto p-8">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-8">
+            <div>
+              <h2 className="text-2xl font-bold text-slate-900 mb-1">Due Today</h2>
+              {data && (
+                <p className="text-slate-600">
+                  {data.counts.review} to review • {data.counts.new} new
+                  {cards.length > 0 && ` • ${Math.min(position, cards.length)}/${cards.length} done`}
+                </p>
+              )}
+            </div>
+            <div className="w-56">
+              <Select value={order} onValueChange={(value) => handleOrderChange(value as ReviewQueueOrder)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(orderLabels) as ReviewQueueOrder[]).map(option => (
+                    <SelectItem key={option} value={option}>{orderLabels[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {isLoading ? (
+            <p className="text-center text-slate-600 py-12">Loading your reviews...</p>
+          ) : !current ? (
+            <div className="bg-white rounded-2xl shadow-lg p-8 max-w-2xl mx-auto text-center">
+              <div className="w-20 h-20 bg-secondary/10 rounded-full flex items-center justify-center mx-auto mb-6">
+                <i className="fas fa-check text-3xl text-secondary"></i>
+              </div>
+              <h3 className="text-2xl font-bold text-slate-900 mb-4">All caught up!</h3>
+              <p className="text-slate-600 mb-8">
+                {cards.length > 0
+                  ? `You reviewed ${cards.length} card${cards.length === 1 ? "" : "s"}.`
+                  : "Nothing is due right now."}
+                {data && data.remainingToday.new === 0 && " You've reached today's limit for new cards."}
+              </p>
+              <div className="flex flex-col sm:flex-row justify-center space-y-3 sm:space-y-0 sm:space-x-4">
+                <button
+                  className="bg-primary text-white px-6 py-3 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                  onClick={handleCheckAgain}
+                  disabled={isFetching}
+                >
+                  Check for more
+                </button>
+                <Link
+                  href="/"
+                  className="bg-white text-slate-700 px-6 py-3 rounded-lg border border-slate-200 hover:bg-slate-50 transition-colors"
+                >
+                  Upload New Video
+                </Link>
+              </div>
+            </div>
+          ) : (
+            <>
+              <div
+                className="bg-white rounded-2xl shadow-xl border border-slate-200 min-h-[320px] p-8 flex flex-col justify-center items-center text-center cursor-pointer"
+                onClick={() => setIsFlipped(!isFlipped)}
+              >
+                <div className="mb-6 flex items-center gap-2">
+                  <span className={`${isFlipped ? "bg-secondary/10 text-secondary" : "bg-primary/10 text-primary"} px-3 py-1 rounded-full text-sm font-medium`}>
+                    {isFlipped ? "Answer" : current.flashcard.cardType === "cloze" ? "Fill in the blank" : "Question"}
+                  </span>
+                  {!current.state && (
+                    <span className="bg-accent/10 text-accent px-3 py-1 rounded-full text-sm font-medium">New</span>
+                  )}
+                </div>
+                <div className={isFlipped ? "text-lg lg:text-xl text-slate-800 leading-relaxed" : "text-2xl lg:text-3xl font-semibold text-slate-900 leading-relaxed"}>
+                  <CardContent flashcard={current.flashcard} side={isFlipped ? "back" : "front"} />
+                </div>
+                <p className="text-slate-500 text-sm mt-6">
+                  <i className="fas fa-layer-group mr-2"></i>
+                  {current.source.originalName}
+                </p>
+              </div>
+
+              <div className="mt-8 text-center">
+                <p className="text-sm text-slate-600 mb-3">
+                  {isFlipped ? "How well did you remember it?" : "Click the card to reveal the answer"}
+                </p>
+                <GradeButtons onGrade={handleGrade} disabled={!isFlipped} />
+              </div>
+            </>
+          )}
+        </main>
+      </LoginGate>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+CREATE TABLE "flashcards" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"video_id" integer NOT NULL,
+	"question" text NOT NULL,
+	"answer" text NOT NULL,
+	"order" integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "study_sessions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"video_id" integer NOT NULL,
+	"current_card_index" integer DEFAULT 0,
+	"completed_cards" json DEFAULT '[]'::json,
+	"review_cards" json DEFAULT '[]'::json,
+	"started_at" text NOT NULL,
+	"completed_at" text,
+	"study_time" integer DEFAULT 0
+);
+--> statement-breakpoint
+CREATE TABLE "videos" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"filename" text NOT NULL,
+	"original_name" text NOT NULL,
+	"file_size" integer NOT NULL,
+	"mime_type" text NOT NULL,
+	"uploaded_at" text NOT NULL,
+	"status" text NOT NULL,
+	"transcription" text,
+	"processing_progress" integer DEFAULT 0,
+	"video_url" text
+);
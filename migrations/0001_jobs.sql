@@ -0,0 +1,15 @@
+CREATE TABLE "jobs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"type" text NOT NULL,
+	"video_id" integer,
+	"payload" json DEFAULT '{}'::json NOT NULL,
+	"status" text NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"max_attempts" integer DEFAULT 5 NOT NULL,
+	"run_at" text NOT NULL,
+	"locked_by" text,
+	"lease_expires_at" text,
+	"last_error" text,
+	"created_at" text NOT NULL,
+	"updated_at" text NOT NULL
+);
@@ -0,0 +1,3 @@
+ALTER TABLE "videos" ADD COLUMN "error_message" text;--> statement-breakpoint
+ALTER TABLE "videos" ADD COLUMN "error_code" text;--> statement-breakpoint
+ALTER TABLE "videos" ADD COLUMN "failed_stage" text;
\ No newline at end of file
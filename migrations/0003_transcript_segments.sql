@@ -0,0 +1,16 @@
+CREATE TABLE "transcript_segments" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"video_id" integer NOT NULL,
+	"position" integer NOT NULL,
+	"start" real NOT NULL,
+	"end" real NOT NULL,
+	"text" text NOT NULL,
+	"speaker" text,
+	"avg_logprob" real,
+	"no_speech_prob" real
+);
+--> statement-breakpoint
+ALTER TABLE "flashcards" ADD COLUMN "source_segment_start" integer;--> statement-breakpoint
+ALTER TABLE "flashcards" ADD COLUMN "source_segment_end" integer;--> statement-breakpoint
+ALTER TABLE "flashcards" ADD COLUMN "source_start_time" real;--> statement-breakpoint
+ALTER TABLE "flashcards" ADD COLUMN "source_end_time" real;
\ No newline at end of file
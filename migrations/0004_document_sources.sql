@@ -0,0 +1,5 @@
+ALTER TABLE "transcript_segments" ALTER COLUMN "start" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "transcript_segments" ALTER COLUMN "end" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "flashcards" ADD COLUMN "source_label" text;--> statement-breakpoint
+ALTER TABLE "transcript_segments" ADD COLUMN "label" text;--> statement-breakpoint
+ALTER TABLE "videos" ADD COLUMN "source_kind" text DEFAULT 'media' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,7 @@
+CREATE TABLE "decks" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"created_at" text NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "videos" ADD COLUMN "deck_id" integer;
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE "upload_sessions" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"original_name" text NOT NULL,
+	"file_size" integer NOT NULL,
+	"mime_type" text NOT NULL,
+	"part_size" integer NOT NULL,
+	"status" text NOT NULL,
+	"video_id" integer,
+	"created_at" text NOT NULL,
+	"updated_at" text NOT NULL
+);
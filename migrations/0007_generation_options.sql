@@ -0,0 +1 @@
+ALTER TABLE "videos" ADD COLUMN "generation_options" json;
\ No newline at end of file
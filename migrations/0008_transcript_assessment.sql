@@ -0,0 +1,2 @@
+ALTER TABLE "videos" ADD COLUMN "transcript_assessment" json;--> statement-breakpoint
+ALTER TABLE "videos" ADD COLUMN "transcript_quality_override" boolean DEFAULT false NOT NULL;
\ No newline at end of file
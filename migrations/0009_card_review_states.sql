@@ -0,0 +1,15 @@
+CREATE TABLE "card_review_states" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"flashcard_id" integer NOT NULL,
+	"ease" real DEFAULT 2.5 NOT NULL,
+	"interval_days" real DEFAULT 0 NOT NULL,
+	"repetitions" integer DEFAULT 0 NOT NULL,
+	"stability" real,
+	"difficulty" real,
+	"lapses" integer DEFAULT 0 NOT NULL,
+	"last_grade" text,
+	"due_at" text NOT NULL,
+	"last_reviewed_at" text,
+	CONSTRAINT "card_review_states_user_flashcard" UNIQUE("user_id","flashcard_id")
+);
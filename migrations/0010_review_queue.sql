@@ -0,0 +1,2 @@
+ALTER TABLE "card_review_states" ADD COLUMN "introduced_at" text;--> statement-breakpoint
+ALTER TABLE "videos" ADD COLUMN "user_id" text;
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE "review_logs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"flashcard_id" integer NOT NULL,
+	"grade" text NOT NULL,
+	"response_time_ms" integer,
+	"previous_interval_days" real NOT NULL,
+	"next_interval_days" real NOT NULL,
+	"reviewed_at" text NOT NULL
+);
@@ -0,0 +1,2 @@
+ALTER TABLE "flashcards" ADD COLUMN "card_type" text DEFAULT 'basic' NOT NULL;--> statement-breakpoint
+ALTER TABLE "flashcards" ADD COLUMN "cloze_index" integer;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "flashcards" ADD COLUMN "options" json;
\ No newline at end of file
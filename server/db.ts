@@ -0,0 +1,19 @@
+import path from "path";
+import pg from "pg";
+import { drizzle, type NodePgDatabase } from "drizzle-orm/node-postgres";
+import { migrate } from "drizzle-orm/node-postgres/migrator";
+import * as schema from "@shared/schema";
+
+export type Database = NodePgDatabase<typeof schema>;
+
+// Uses plain node-postgres so the same code runs against a local Postgres,
+// a pg-mem adapter in tests, or a hosted instance reached over TCP.
+export function createDatabase(connectionString: string): { db: Database; pool: pg.Pool } {
+  const pool = new pg.Pool({ connectionString });
+  const db = drizzle(pool, { schema });
+  return { db, pool };
+}
+
+export async function runMigrations(db: Database, migrationsFolder = path.resolve(process.cwd(), "migrations")) {
+  await migrate(db, { migrationsFolder });
+}
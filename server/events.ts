@@ -0,0 +1,20 @@
+import { EventEmitter } from "events";
+import type { ProcessingEvent } from "@shared/schema";
+
+// In-process fan-out of processing events to open SSE connections. Events are
+// not stored: a client that connects late reads the current state from
+// storage first and only relies on the stream for what happens next.
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+export function publishProcessingEvent(videoId: number, event: ProcessingEvent) {
+  emitter.emit(`video:${videoId}`, event);
+}
+
+// Returns a function that removes the listener.
+export function subscribeToProcessingEvents(videoId: number, listener: (event: ProcessingEvent) => void): () => void {
+  emitter.on(`video:${videoId}`, listener);
+  return () => {
+    emitter.off(`video:${videoId}`, listener);
+  };
+}
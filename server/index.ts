@@ -1,5 +1,8 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { prepareStorage } from "./storage";
+import { startJobWorker } from "./jobs";
+import { registerPipelineJobHandlers } from "./pipeline";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
@@ -37,6 +40,7 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  await prepareStorage();
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -67,4 +71,8 @@ app.use((req, res, next) => {
   }, () => {
     log(`serving on port ${port}`);
   });
+
+  // Resumes any jobs left unfinished by a previous run once their lease lapses
+  registerPipelineJobHandlers();
+  startJobWorker();
 })();
@@ -0,0 +1,135 @@
+import { randomUUID } from "crypto";
+import type { Job } from "@shared/schema";
+import { storage } from "./storage";
+import { publishProcessingEvent } from "./events";
+import { log } from "./vite";
+
+export type JobHandler = (job: Job) => Promise<void>;
+
+interface JobHandlerRegistration {
+  run: JobHandler;
+  // Called once a job has used up its attempts (or failed permanently).
+  onDeadLetter?: (job: Job, error: Error) => Promise<void>;
+}
+
+// Handlers signal that retrying cannot help (e.g. bad input) by throwing
+// an error whose `retryable` property is false.
+export class PermanentJobError extends Error {
+  readonly retryable = false;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "PermanentJobError";
+  }
+}
+
+function isRetryable(error: Error): boolean {
+  return (error as Error & { retryable?: boolean }).retryable !== false;
+}
+
+const handlers = new Map<string, JobHandlerRegistration>();
+
+const LEASE_MS = 60 * 1000;
+const POLL_INTERVAL_MS = 1000;
+const BASE_BACKOFF_MS = 5 * 1000;
+const MAX_BACKOFF_MS = 10 * 60 * 1000;
+
+export function registerJobHandler(type: string, registration: JobHandlerRegistration) {
+  handlers.set(type, registration);
+}
+
+export async function enqueueJob(
+  type: string,
+  videoId: number | null,
+  payload: Record<string, unknown> = {},
+  options: { maxAttempts?: number } = {},
+): Promise<Job> {
+  return storage.createJob({ type, videoId, payload, maxAttempts: options.maxAttempts });
+}
+
+// Exponential backoff with jitter: 5s, 10s, 20s, ... capped at 10 minutes.
+export function retryDelayMs(attempts: number): number {
+  const delay = Math.min(BASE_BACKOFF_MS * 2 ** Math.max(attempts - 1, 0), MAX_BACKOFF_MS);
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+async function runJob(job: Job, workerId: string) {
+  const registration = handlers.get(job.type);
+  if (!registration) {
+    await storage.failJob(job.id, `No handler registered for job type "${job.type}"`);
+    return;
+  }
+
+  // Keep the lease alive while the handler is running so long transcriptions
+  // are not picked up by another worker.
+  const heartbeat = setInterval(() => {
+    storage.extendJobLease(job.id, workerId, LEASE_MS).catch(console.error);
+  }, LEASE_MS / 3);
+
+  try {
+    // A job whose lease lapsed repeatedly (the worker kept dying) is not retried forever.
+    if (job.attempts > job.maxAttempts) {
+      throw new PermanentJobError(job.lastError || "Job exceeded its maximum number of attempts");
+    }
+
+    await registration.run(job);
+    await storage.completeJob(job.id);
+  } catch (err) {
+    const error = err instanceof Error ? err : new Error(String(err));
+    const retryable = isRetryable(error) && job.attempts < job.maxAttempts;
+
+    if (retryable) {
+      const retryAt = new Date(Date.now() + retryDelayMs(job.attempts)).toISOString();
+      log(`job ${job.id} (${job.type}) failed on attempt ${job.attempts}, retrying at ${retryAt}: ${error.message}`, "jobs");
+      await storage.failJob(job.id, error.message, retryAt);
+      if (job.videoId !== null) {
+        publishProcessingEvent(job.videoId, { type: "retrying", attempts: job.attempts, maxAttempts: job.maxAttempts, retryAt });
+      }
+    } else {
+      log(`job ${job.id} (${job.type}) moved to dead letter: ${error.message}`, "jobs");
+      await storage.failJob(job.id, error.message);
+      await registration.onDeadLetter?.(job, error).catch(console.error);
+    }
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+// Polls storage for runnable jobs until the returned stop function is called.
+// Jobs left "running" by a previous process are reclaimed once their lease lapses.
+export function startJobWorker(options: { concurrency?: number } = {}): () => Promise<void> {
+  const concurrency = options.concurrency ?? Number(process.env.JOB_CONCURRENCY || 1);
+  const workerId = `${process.pid}-${randomUUID()}`;
+  let stopped = false;
+
+  const loop = async () => {
+    while (!stopped) {
+      let job: Job | undefined;
+      try {
+        job = await storage.claimNextJob(workerId, LEASE_MS);
+      } catch (error) {
+        console.error("Failed to claim job:", error);
+      }
+
+      if (job) {
+        // A storage error while recording the outcome must not stop this
+        // loop; the job's lease lapses and it is picked up again.
+        try {
+          await runJob(job, workerId);
+        } catch (error) {
+          console.error(`Failed to record outcome of job ${job.id}:`, error);
+        }
+      } else {
+        await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+      }
+    }
+  };
+
+  const loops = Array.from({ length: concurrency }, () => loop());
+  log(`job worker ${workerId} started with concurrency ${concurrency}`, "jobs");
+
+  return async () => {
+    stopped = true;
+    await Promise.all(loops);
+  };
+}
@@ -0,0 +1,57 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import JSZip from "jszip";
+import { ArchiveError, extractZip } from "./archive";
+
+describe("extractZip", () => {
+  let dir: string;
+  let zipPath: string;
+
+  before(async () => {
+    dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "archive-test-"));
+    zipPath = path.join(dir, "module.zip");
+
+    const zip = new JSZip();
+    zip.file("lecture-1.mp3", Buffer.alloc(2048, 1));
+    zip.file("notes/slides.md", "# Slides");
+    zip.file("__MACOSX/._lecture-1.mp3", "fork");
+    zip.file(".DS_Store", "");
+    await fs.promises.writeFile(zipPath, await zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" }));
+  });
+
+  after(async () => {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  });
+
+  test("extracts content files under random names", async () => {
+    const destDir = await fs.promises.mkdtemp(path.join(dir, "out-"));
+    const files = await extractZip(zipPath, destDir);
+
+    assert.deepEqual(files.map(file => [file.originalName, file.size]), [["lecture-1.mp3", 2048], ["slides.md", 8]]);
+    for (const file of files) {
+      assert.equal(path.dirname(file.path), destDir);
+      assert.equal((await fs.promises.stat(file.path)).size, file.size);
+    }
+  });
+
+  test("rejects archives over the size limit without reading them", async () => {
+    const destDir = await fs.promises.mkdtemp(path.join(dir, "out-"));
+    await assert.rejects(extractZip(zipPath, destDir, { maxArchiveBytes: 100 }), ArchiveError);
+    assert.deepEqual(await fs.promises.readdir(destDir), []);
+  });
+
+  test("rejects archives that declare too much uncompressed data", async () => {
+    const destDir = await fs.promises.mkdtemp(path.join(dir, "out-"));
+    await assert.rejects(extractZip(zipPath, destDir, { maxTotalBytes: 2048 }), /too large once extracted/);
+    assert.deepEqual(await fs.promises.readdir(destDir), []);
+  });
+
+  test("rejects files that aren't ZIP archives", async () => {
+    const notZip = path.join(dir, "notes.zip");
+    await fs.promises.writeFile(notZip, "just text");
+    await assert.rejects(extractZip(notZip, dir), ArchiveError);
+  });
+});
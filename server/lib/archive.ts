@@ -0,0 +1,144 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { Transform } from "stream";
+import { pipeline } from "stream/promises";
+import JSZip from "jszip";
+
+export interface ExtractedFile {
+  path: string;
+  // Name on disk inside the destination directory.
+  filename: string;
+  // Entry name inside the archive, without folders.
+  originalName: string;
+  size: number;
+}
+
+export interface ExtractZipOptions {
+  maxEntries?: number;
+  // Limit on the archive itself, which is read into memory whole.
+  maxArchiveBytes?: number;
+  // Limit on the total uncompressed size, so a small archive can't fill the disk.
+  maxTotalBytes?: number;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+// The end record is 22 bytes followed by a comment of up to 64KB.
+const MAX_END_RECORD_BYTES = 22 + 0xffff;
+
+export class ArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ArchiveError";
+  }
+}
+
+// Skips folders, macOS resource forks and hidden files.
+function isContentEntry(entry: JSZip.JSZipObject): boolean {
+  if (entry.dir) return false;
+  const parts = entry.name.split("/");
+  return !parts.includes("__MACOSX") && !parts[parts.length - 1].startsWith(".");
+}
+
+// Sums the uncompressed sizes the archive's central directory declares,
+// reading only the directory rather than the whole file.
+async function declaredUncompressedBytes(zipPath: string, archiveBytes: number): Promise<number> {
+  const file = await fs.promises.open(zipPath, "r");
+  try {
+    const tailLength = Math.min(archiveBytes, MAX_END_RECORD_BYTES);
+    const tail = Buffer.alloc(tailLength);
+    await file.read(tail, 0, tailLength, archiveBytes - tailLength);
+
+    let end = tailLength - 22;
+    while (end >= 0 && tail.readUInt32LE(end) !== END_OF_CENTRAL_DIRECTORY) end--;
+    if (end < 0) throw new ArchiveError("Could not read the ZIP archive: no central directory found");
+
+    const entryCount = tail.readUInt16LE(end + 10);
+    const directoryBytes = tail.readUInt32LE(end + 12);
+    const directoryOffset = tail.readUInt32LE(end + 16);
+    if (directoryOffset + directoryBytes > archiveBytes) {
+      throw new ArchiveError("Could not read the ZIP archive: the central directory is out of bounds");
+    }
+
+    const directory = Buffer.alloc(directoryBytes);
+    await file.read(directory, 0, directoryBytes, directoryOffset);
+
+    let total = 0;
+    let offset = 0;
+    for (let i = 0; i < entryCount; i++) {
+      if (offset + 46 > directoryBytes || directory.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+        throw new ArchiveError("Could not read the ZIP archive: the central directory is corrupt");
+      }
+      // ZIP64 entries store 0xFFFFFFFF here, which already exceeds any sane limit.
+      total += directory.readUInt32LE(offset + 24);
+      offset += 46 + directory.readUInt16LE(offset + 28) + directory.readUInt16LE(offset + 30) + directory.readUInt16LE(offset + 32);
+    }
+    return total;
+  } finally {
+    await file.close();
+  }
+}
+
+// Extracts every file in the archive into `destDir` under random names, the
+// same way multer names uploads. Files already written are removed on failure.
+export async function extractZip(zipPath: string, destDir: string, options: ExtractZipOptions = {}): Promise<ExtractedFile[]> {
+  const maxEntries = options.maxEntries ?? 100;
+  const maxArchiveBytes = options.maxArchiveBytes ?? 100 * 1024 * 1024;
+  const maxTotalBytes = options.maxTotalBytes ?? 1024 * 1024 * 1024;
+
+  // Both limits are checked before the archive is loaded. The declared sizes
+  // may lie, so the total is enforced again while extracting.
+  const { size: archiveBytes } = await fs.promises.stat(zipPath);
+  if (archiveBytes > maxArchiveBytes) {
+    throw new ArchiveError(`The archive is larger than the ${Math.round(maxArchiveBytes / (1024 * 1024))}MB limit for ZIP files`);
+  }
+  if (await declaredUncompressedBytes(zipPath, archiveBytes) > maxTotalBytes) {
+    throw new ArchiveError("The archive is too large once extracted");
+  }
+
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(await fs.promises.readFile(zipPath));
+  } catch (error) {
+    throw new ArchiveError(`Could not read the ZIP archive: ${(error as Error).message}`);
+  }
+
+  const entries = Object.values(zip.files).filter(isContentEntry);
+  if (entries.length > maxEntries) {
+    throw new ArchiveError(`The archive contains ${entries.length} files; the limit is ${maxEntries}`);
+  }
+
+  const extracted: ExtractedFile[] = [];
+  let totalBytes = 0;
+  try {
+    for (const entry of entries) {
+      const filename = crypto.randomBytes(16).toString("hex");
+      const filePath = path.join(destDir, filename);
+      let size = 0;
+
+      const limiter = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          size += chunk.length;
+          totalBytes += chunk.length;
+          if (totalBytes > maxTotalBytes) {
+            callback(new ArchiveError("The archive is too large once extracted"));
+          } else {
+            callback(null, chunk);
+          }
+        },
+      });
+
+      extracted.push({ path: filePath, filename, originalName: path.posix.basename(entry.name), size: 0 });
+      await pipeline(entry.nodeStream("nodebuffer"), limiter, fs.createWriteStream(filePath));
+      extracted[extracted.length - 1].size = size;
+    }
+  } catch (error) {
+    await Promise.all(extracted.map(file => fs.promises.rm(file.path, { force: true })));
+    throw error instanceof ArchiveError
+      ? error
+      : new ArchiveError(`Could not extract the ZIP archive: ${(error as Error).message}`);
+  }
+
+  return extracted;
+}
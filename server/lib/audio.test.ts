@@ -0,0 +1,65 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { AUDIO_BYTES_PER_SECOND, maxSecondsForBytes, planChunks, type AudioChunk } from "./audio";
+
+const WHISPER_API_BYTES = 25 * 1024 * 1024;
+
+// Chunks must run back to back from 0 to the end, each within the limit.
+function assertCovers(chunks: AudioChunk[], duration: number, maxChunkSeconds: number) {
+  assert.equal(chunks[0].start, 0);
+  assert.equal(chunks[chunks.length - 1].end, duration);
+  chunks.forEach((chunk, i) => {
+    assert.equal(chunk.index, i);
+    assert.ok(chunk.end - chunk.start <= maxChunkSeconds, `chunk ${i} is ${chunk.end - chunk.start}s`);
+    if (i > 0) assert.equal(chunk.start, chunks[i - 1].end);
+  });
+}
+
+describe("planChunks", () => {
+  test("keeps short audio in one chunk", () => {
+    assert.deepEqual(planChunks(300, [{ start: 100, end: 101 }], 600), [{ index: 0, start: 0, end: 300 }]);
+  });
+
+  test("cuts in the middle of the latest silence before each limit", () => {
+    const silences = [
+      { start: 100, end: 102 },
+      { start: 400, end: 402 },
+      { start: 550, end: 552 },
+      { start: 1000, end: 1004 },
+    ];
+    const chunks = planChunks(1500, silences, 600);
+
+    assert.deepEqual(chunks.map(chunk => [chunk.start, chunk.end]), [[0, 551], [551, 1002], [1002, 1500]]);
+    assertCovers(chunks, 1500, 600);
+  });
+
+  test("cuts hard at the limit when there is no silence", () => {
+    const chunks = planChunks(1300, [], 600);
+
+    assert.deepEqual(chunks.map(chunk => [chunk.start, chunk.end]), [[0, 600], [600, 1200], [1200, 1300]]);
+  });
+
+  test("ignores silences in the front half of a chunk or past its limit", () => {
+    const chunks = planChunks(900, [{ start: 200, end: 210 }, { start: 598, end: 604 }], 600);
+
+    assert.deepEqual(chunks.map(chunk => [chunk.start, chunk.end]), [[0, 600], [600, 900]]);
+  });
+});
+
+describe("maxSecondsForBytes", () => {
+  test("leaves 10% headroom under the size limit", () => {
+    assert.equal(maxSecondsForBytes(WHISPER_API_BYTES, "mp3"), (WHISPER_API_BYTES * 0.9) / AUDIO_BYTES_PER_SECOND.mp3);
+    assert.ok(maxSecondsForBytes(WHISPER_API_BYTES, "wav") < maxSecondsForBytes(WHISPER_API_BYTES, "opus"));
+  });
+
+  test("keeps every planned chunk under the size limit", () => {
+    const duration = 3 * 60 * 60;
+    const maxChunkSeconds = maxSecondsForBytes(WHISPER_API_BYTES, "mp3");
+    const chunks = planChunks(duration, [{ start: 3000, end: 3002 }], maxChunkSeconds);
+
+    assertCovers(chunks, duration, maxChunkSeconds);
+    for (const chunk of chunks) {
+      assert.ok((chunk.end - chunk.start) * AUDIO_BYTES_PER_SECOND.mp3 < WHISPER_API_BYTES);
+    }
+  });
+});
@@ -0,0 +1,139 @@
+import path from "path";
+import { execFile } from "child_process";
+import { promisify } from "util";
+
+const execFileAsync = promisify(execFile);
+
+const FFMPEG = process.env.FFMPEG_PATH || "ffmpeg";
+const FFPROBE = process.env.FFPROBE_PATH || "ffprobe";
+
+export type AudioFormat = "mp3" | "opus" | "wav";
+
+// Mono 16 kHz is what Whisper resamples to anyway, so nothing is lost.
+const ENCODER_ARGS: Record<AudioFormat, string[]> = {
+  mp3: ["-c:a", "libmp3lame", "-b:a", "48k"],
+  opus: ["-c:a", "libopus", "-b:a", "32k"],
+  wav: ["-c:a", "pcm_s16le"],
+};
+
+// Approximate bytes per second of audio for each format, used to size chunks.
+export const AUDIO_BYTES_PER_SECOND: Record<AudioFormat, number> = {
+  mp3: 48000 / 8,
+  opus: 32000 / 8,
+  wav: 16000 * 2,
+};
+
+// Longest audio that stays under `maxFileBytes` once encoded as `format`,
+// with 10% headroom because encoded sizes vary around the nominal bitrate.
+export function maxSecondsForBytes(maxFileBytes: number, format: AudioFormat): number {
+  return (maxFileBytes * 0.9) / AUDIO_BYTES_PER_SECOND[format];
+}
+
+export const AUDIO_EXTENSIONS: Record<AudioFormat, string> = {
+  mp3: ".mp3",
+  opus: ".ogg",
+  wav: ".wav",
+};
+
+export interface Silence {
+  start: number;
+  end: number;
+}
+
+export interface AudioChunk {
+  index: number;
+  start: number;
+  end: number;
+}
+
+async function runFfmpeg(args: string[]): Promise<string> {
+  try {
+    const { stderr } = await execFileAsync(FFMPEG, ["-hide_banner", "-nostdin", "-y", ...args], {
+      maxBuffer: 64 * 1024 * 1024,
+    });
+    return stderr;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new Error(`ffmpeg was not found at "${FFMPEG}". Install it or set FFMPEG_PATH.`);
+    }
+    throw error;
+  }
+}
+
+// Strips the video stream and re-encodes the audio as mono 16 kHz.
+export async function extractAudio(inputPath: string, outputPath: string, format: AudioFormat): Promise<void> {
+  await runFfmpeg(["-i", inputPath, "-vn", "-ac", "1", "-ar", "16000", ...ENCODER_ARGS[format], outputPath]);
+}
+
+export async function probeDuration(filePath: string): Promise<number> {
+  const { stdout } = await execFileAsync(FFPROBE, [
+    "-v", "error",
+    "-show_entries", "format=duration",
+    "-of", "default=noprint_wrappers=1:nokey=1",
+    filePath,
+  ]);
+  const duration = parseFloat(stdout.trim());
+  if (Number.isNaN(duration)) {
+    throw new Error("Could not determine audio duration");
+  }
+  return duration;
+}
+
+export async function detectSilences(filePath: string, noiseDb = -35, minSilenceSeconds = 0.5): Promise<Silence[]> {
+  const stderr = await runFfmpeg([
+    "-i", filePath,
+    "-af", `silencedetect=noise=${noiseDb}dB:d=${minSilenceSeconds}`,
+    "-f", "null", "-",
+  ]);
+
+  const silences: Silence[] = [];
+  let start: number | null = null;
+  for (const line of stderr.split("\n")) {
+    const startMatch = line.match(/silence_start: (-?[\d.]+)/);
+    if (startMatch) {
+      start = Math.max(0, parseFloat(startMatch[1]));
+      continue;
+    }
+    const endMatch = line.match(/silence_end: ([\d.]+)/);
+    if (endMatch && start !== null) {
+      silences.push({ start, end: parseFloat(endMatch[1]) });
+      start = null;
+    }
+  }
+  return silences;
+}
+
+// Splits [0, duration] into chunks no longer than maxChunkSeconds, cutting in
+// the middle of the latest silence before each limit so words aren't split.
+// Falls back to a hard cut when there is no silence in the back half of a chunk.
+export function planChunks(duration: number, silences: Silence[], maxChunkSeconds: number): AudioChunk[] {
+  const chunks: AudioChunk[] = [];
+  let start = 0;
+
+  while (duration - start > maxChunkSeconds) {
+    const limit = start + maxChunkSeconds;
+    const earliest = start + maxChunkSeconds / 2;
+    const cut = silences
+      .map(silence => (silence.start + silence.end) / 2)
+      .filter(midpoint => midpoint > earliest && midpoint <= limit)
+      .pop() ?? limit;
+
+    chunks.push({ index: chunks.length, start, end: cut });
+    start = cut;
+  }
+
+  chunks.push({ index: chunks.length, start, end: duration });
+  return chunks;
+}
+
+export async function cutChunk(inputPath: string, chunk: AudioChunk, outputDir: string, format: AudioFormat): Promise<string> {
+  const outputPath = path.join(outputDir, `chunk-${String(chunk.index).padStart(4, "0")}${AUDIO_EXTENSIONS[format]}`);
+  await runFfmpeg([
+    "-ss", chunk.start.toFixed(3),
+    "-i", inputPath,
+    "-t", (chunk.end - chunk.start).toFixed(3),
+    "-c", "copy",
+    outputPath,
+  ]);
+  return outputPath;
+}
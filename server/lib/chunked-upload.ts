@@ -0,0 +1,133 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { Transform, type Readable } from "stream";
+import { pipeline } from "stream/promises";
+
+// 8 MiB keeps a lost part cheap to resend without making thousands of requests.
+export const DEFAULT_PART_SIZE = 8 * 1024 * 1024;
+
+export interface PartLayout {
+  fileSize: number;
+  partSize: number;
+}
+
+// A part the server refused; `status` is the HTTP status to answer with.
+export class UploadPartError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = "UploadPartError";
+  }
+}
+
+export function totalParts(layout: PartLayout): number {
+  return Math.ceil(layout.fileSize / layout.partSize);
+}
+
+// Every part is partSize bytes except the last, which holds the remainder.
+export function expectedPartSize(layout: PartLayout, index: number): number {
+  const start = index * layout.partSize;
+  return Math.min(layout.partSize, layout.fileSize - start);
+}
+
+function partsDir(baseDir: string, uploadId: string): string {
+  return path.join(baseDir, "parts", uploadId);
+}
+
+function partPath(baseDir: string, uploadId: string, index: number): string {
+  return path.join(partsDir(baseDir, uploadId), `${index}.part`);
+}
+
+// Streams one part to disk, checking its length and SHA-256 before it is
+// kept. The part is written under a temporary name and renamed at the end,
+// so an interrupted request never leaves a part that looks complete.
+export async function writePart(
+  baseDir: string,
+  uploadId: string,
+  layout: PartLayout,
+  index: number,
+  body: Readable,
+  sha256: string,
+): Promise<void> {
+  if (!Number.isInteger(index) || index < 0 || index >= totalParts(layout)) {
+    throw new UploadPartError(400, `Part ${index} is out of range`);
+  }
+  if (!/^[0-9a-f]{64}$/i.test(sha256)) {
+    throw new UploadPartError(400, "A hex SHA-256 checksum of the part is required");
+  }
+
+  const expectedBytes = expectedPartSize(layout, index);
+  const dir = partsDir(baseDir, uploadId);
+  await fs.promises.mkdir(dir, { recursive: true });
+  const tempPath = path.join(dir, `${index}.${crypto.randomBytes(4).toString("hex")}.tmp`);
+
+  const hash = crypto.createHash("sha256");
+  let bytes = 0;
+  const meter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      bytes += chunk.length;
+      if (bytes > expectedBytes) {
+        callback(new UploadPartError(400, `Part ${index} is larger than ${expectedBytes} bytes`));
+        return;
+      }
+      hash.update(chunk);
+      callback(null, chunk);
+    },
+  });
+
+  try {
+    await pipeline(body, meter, fs.createWriteStream(tempPath));
+    if (bytes !== expectedBytes) {
+      throw new UploadPartError(400, `Part ${index} should be ${expectedBytes} bytes but was ${bytes}`);
+    }
+    if (hash.digest("hex") !== sha256.toLowerCase()) {
+      throw new UploadPartError(422, `Checksum mismatch for part ${index}`);
+    }
+    await fs.promises.rename(tempPath, partPath(baseDir, uploadId, index));
+  } catch (error) {
+    await fs.promises.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+export async function listParts(baseDir: string, uploadId: string): Promise<number[]> {
+  let names: string[];
+  try {
+    names = await fs.promises.readdir(partsDir(baseDir, uploadId));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+  return names
+    .map(name => name.match(/^(\d+)\.part$/)?.[1])
+    .filter((index): index is string => index !== undefined)
+    .map(Number)
+    .sort((a, b) => a - b);
+}
+
+// Concatenates all parts in order into `destPath` and removes them.
+export async function assembleParts(baseDir: string, uploadId: string, layout: PartLayout, destPath: string): Promise<void> {
+  const received = new Set(await listParts(baseDir, uploadId));
+  const missing = Array.from({ length: totalParts(layout) }, (_, i) => i).filter(i => !received.has(i));
+  if (missing.length > 0) {
+    throw new UploadPartError(409, `Missing parts: ${missing.join(", ")}`);
+  }
+
+  const output = fs.createWriteStream(destPath);
+  try {
+    for (let i = 0; i < totalParts(layout); i++) {
+      await pipeline(fs.createReadStream(partPath(baseDir, uploadId, i)), output, { end: false });
+    }
+    await new Promise<void>((resolve, reject) => output.end((err?: Error | null) => err ? reject(err) : resolve()));
+  } catch (error) {
+    output.destroy();
+    await fs.promises.rm(destPath, { force: true });
+    throw error;
+  }
+
+  await removeParts(baseDir, uploadId);
+}
+
+export async function removeParts(baseDir: string, uploadId: string): Promise<void> {
+  await fs.promises.rm(partsDir(baseDir, uploadId), { recursive: true, force: true });
+}
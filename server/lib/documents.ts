@@ -0,0 +1,196 @@
+import fs from "fs";
+import path from "path";
+import JSZip from "jszip";
+import { extractText } from "unpdf";
+
+export type DocumentFormat = "pdf" | "pptx" | "markdown";
+
+export const DOCUMENT_EXTENSIONS = [".pdf", ".pptx", ".md", ".markdown"];
+
+export const DOCUMENT_MIME_TYPES: Record<DocumentFormat, string> = {
+  pdf: "application/pdf",
+  pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  markdown: "text/markdown",
+};
+
+// A page, slide or heading section; `label` tells the learner where it is.
+export interface DocumentSection {
+  label: string;
+  text: string;
+}
+
+export interface ExtractedDocument {
+  text: string;
+  segments: DocumentSection[];
+}
+
+export class DocumentExtractionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DocumentExtractionError";
+  }
+}
+
+// Identifies the format from the file's contents. PPTX shares the ZIP
+// signature with other Office files, so it also needs the .pptx extension;
+// extraction verifies it holds slides. Markdown has no signature, so any
+// NUL-free text with a Markdown extension passes.
+export async function detectDocumentFormat(filePath: string, originalName: string): Promise<DocumentFormat | null> {
+  const handle = await fs.promises.open(filePath, "r");
+  let header: Buffer;
+  try {
+    header = Buffer.alloc(4096);
+    const { bytesRead } = await handle.read(header, 0, header.length, 0);
+    header = header.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+
+  const extension = path.extname(originalName).toLowerCase();
+  if (header.subarray(0, 5).toString("latin1") === "%PDF-") return "pdf";
+  if (extension === ".pptx" && header.length >= 4 && header.readUInt32BE(0) === 0x504b0304) return "pptx";
+  if ((extension === ".md" || extension === ".markdown") && !header.includes(0)) {
+    return "markdown";
+  }
+  return null;
+}
+
+function normalizeWhitespace(text: string): string {
+  return text.replace(/[ \t]+/g, " ").replace(/\n{3,}/g, "\n\n").trim();
+}
+
+function toDocument(sections: DocumentSection[]): ExtractedDocument {
+  const segments = sections.filter(section => section.text);
+  if (segments.length === 0) {
+    throw new DocumentExtractionError("No text could be extracted from the document. Scanned PDFs need OCR first.");
+  }
+  return {
+    text: segments.map(section => section.text).join("\n\n"),
+    segments,
+  };
+}
+
+export async function extractPdf(data: Buffer): Promise<ExtractedDocument> {
+  let pages: string[];
+  try {
+    ({ text: pages } = await extractText(new Uint8Array(data), { mergePages: false }));
+  } catch (error) {
+    throw new DocumentExtractionError(`Could not read the PDF: ${(error as Error).message}`);
+  }
+  return toDocument(pages.map((page, i) => ({ label: `Page ${i + 1}`, text: normalizeWhitespace(page) })));
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, "\"")
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, "&");
+}
+
+// Text runs (<a:t>) grouped by paragraph (<a:p>), one line per paragraph.
+function drawingMlText(xml: string): string {
+  const paragraphs = xml.match(/<a:p[\s>][\s\S]*?<\/a:p>/g) ?? [];
+  return paragraphs
+    .map(paragraph => (paragraph.match(/<a:t>([\s\S]*?)<\/a:t>/g) ?? [])
+      .map(run => decodeXmlEntities(run.replace(/<\/?a:t>/g, "")))
+      .join(""))
+    .map(line => line.trim())
+    .filter(Boolean)
+    .join("\n");
+}
+
+function slideNumber(name: string): number {
+  return Number(name.match(/(\d+)\.xml$/)?.[1] ?? 0);
+}
+
+// Reads slide text and speaker notes, which often carry most of the content.
+export async function extractPptx(data: Buffer): Promise<ExtractedDocument> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch (error) {
+    throw new DocumentExtractionError(`Could not read the presentation: ${(error as Error).message}`);
+  }
+
+  const slideFiles = Object.keys(zip.files)
+    .filter(name => /^ppt\/slides\/slide\d+\.xml$/.test(name))
+    .sort((a, b) => slideNumber(a) - slideNumber(b));
+  if (slideFiles.length === 0) {
+    throw new DocumentExtractionError("The file is not a PowerPoint presentation");
+  }
+
+  const sections: DocumentSection[] = [];
+  for (const slideFile of slideFiles) {
+    const number = slideNumber(slideFile);
+    const slideText = drawingMlText(await zip.file(slideFile)!.async("string"));
+    const notesFile = zip.file(`ppt/notesSlides/notesSlide${number}.xml`);
+    // Notes pages repeat the slide number as a text run; drop bare numbers.
+    const notesText = notesFile
+      ? drawingMlText(await notesFile.async("string")).split("\n").filter(line => !/^\d+$/.test(line)).join("\n")
+      : "";
+
+    sections.push({
+      label: `Slide ${number}`,
+      text: normalizeWhitespace(notesText ? `${slideText}\n\nSpeaker notes: ${notesText}` : slideText),
+    });
+  }
+  return toDocument(sections);
+}
+
+// Strips Markdown syntax that carries no meaning for flashcards, keeping the text.
+function markdownToText(markdown: string): string {
+  return markdown
+    .replace(/```[^\n]*\n([\s\S]*?)```/g, "$1")
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    .replace(/<[^>]+>/g, "")
+    .replace(/^\s{0,3}>\s?/gm, "")
+    .replace(/^\s*[-*+]\s+/gm, "- ")
+    .replace(/(\*\*|__)(.*?)\1/g, "$2")
+    .replace(/(^|\W)[*_](\S[^*_]*)[*_](?=\W|$)/g, "$1$2")
+    .replace(/`([^`]+)`/g, "$1");
+}
+
+// Splits on headings so each section cites the heading it sits under.
+export function extractMarkdown(markdown: string, title = "Introduction"): ExtractedDocument {
+  const sections: DocumentSection[] = [];
+  let label = title;
+  let lines: string[] = [];
+
+  const flush = () => {
+    sections.push({ label, text: normalizeWhitespace(markdownToText(lines.join("\n"))) });
+    lines = [];
+  };
+
+  let inCodeBlock = false;
+  for (const line of markdown.replace(/\r\n?/g, "\n").split("\n")) {
+    if (line.trimStart().startsWith("```")) inCodeBlock = !inCodeBlock;
+    const heading = !inCodeBlock && line.match(/^\s{0,3}#{1,6}\s+(.+?)\s*#*\s*$/);
+    if (heading) {
+      flush();
+      label = heading[1];
+      lines.push(heading[1]);
+    } else {
+      lines.push(line);
+    }
+  }
+  flush();
+
+  return toDocument(sections);
+}
+
+export async function extractDocument(filePath: string, format: DocumentFormat): Promise<ExtractedDocument> {
+  const data = await fs.promises.readFile(filePath);
+  switch (format) {
+    case "pdf":
+      return extractPdf(data);
+    case "pptx":
+      return extractPptx(data);
+    case "markdown":
+      return extractMarkdown(data.toString("utf8"));
+  }
+}
@@ -0,0 +1,102 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import http from "http";
+import os from "os";
+import path from "path";
+import type { AddressInfo } from "net";
+import { DirectMediaDownloader, DownloadError, isPublicAddress } from "./download";
+
+const AUDIO = Buffer.alloc(4096, 7);
+
+// A static server on loopback standing in for a media host.
+const routes: Record<string, (res: http.ServerResponse) => void> = {
+  "/clip.mp3": res => res.writeHead(200, { "content-type": "audio/mpeg" }).end(AUDIO),
+  "/page.html": res => res.writeHead(200, { "content-type": "text/html" }).end("<html></html>"),
+  "/moved": res => res.writeHead(302, { location: "/clip.mp3" }).end(),
+  "/loop": res => res.writeHead(302, { location: "/loop" }).end(),
+};
+
+function rejectsWith(code: string) {
+  return (error: unknown) => error instanceof DownloadError && error.code === code;
+}
+
+describe("DirectMediaDownloader", () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let destDir: string;
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      const route = routes[req.url ?? ""];
+      if (route) route(res);
+      else res.writeHead(404).end();
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    destDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "download-test-"));
+  });
+
+  after(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await fs.promises.rm(destDir, { recursive: true, force: true });
+  });
+
+  test("saves the response body", async () => {
+    const downloader = new DirectMediaDownloader({ allowPrivateHosts: true });
+    const media = await downloader.download(`${baseUrl}/clip.mp3`, destDir);
+
+    assert.equal(media.bytes, AUDIO.length);
+    assert.equal(media.contentType, "audio/mpeg");
+    assert.equal(path.extname(media.filePath), ".mp3");
+    assert.deepEqual(await fs.promises.readFile(media.filePath), AUDIO);
+  });
+
+  test("follows redirects", async () => {
+    const downloader = new DirectMediaDownloader({ allowPrivateHosts: true });
+    const media = await downloader.download(`${baseUrl}/moved`, destDir);
+
+    assert.equal(media.bytes, AUDIO.length);
+    assert.equal(path.extname(media.filePath), ".mp3");
+  });
+
+  test("gives up on redirect loops", async () => {
+    const downloader = new DirectMediaDownloader({ allowPrivateHosts: true });
+    await assert.rejects(downloader.download(`${baseUrl}/loop`, destDir), rejectsWith("download_failed"));
+  });
+
+  test("rejects responses that aren't media", async () => {
+    const downloader = new DirectMediaDownloader({ allowPrivateHosts: true });
+    await assert.rejects(downloader.download(`${baseUrl}/page.html`, destDir), rejectsWith("unsupported_content_type"));
+  });
+
+  test("enforces the size limit", async () => {
+    const downloader = new DirectMediaDownloader({ allowPrivateHosts: true, maxBytes: AUDIO.length - 1 });
+    await assert.rejects(downloader.download(`${baseUrl}/clip.mp3`, destDir), rejectsWith("download_too_large"));
+  });
+
+  test("refuses private hosts by default", async () => {
+    const downloader = new DirectMediaDownloader();
+    await assert.rejects(downloader.download(`${baseUrl}/clip.mp3`, destDir), rejectsWith("blocked_address"));
+    await assert.rejects(downloader.download("http://localhost/clip.mp3", destDir), rejectsWith("blocked_address"));
+  });
+
+  test("refuses non-http URLs", async () => {
+    const downloader = new DirectMediaDownloader();
+    await assert.rejects(downloader.download("file:///etc/passwd", destDir), rejectsWith("unsupported_url"));
+  });
+});
+
+describe("isPublicAddress", () => {
+  test("rejects loopback, private and link-local addresses", () => {
+    for (const address of ["127.0.0.1", "10.1.2.3", "172.16.0.1", "192.168.1.1", "169.254.169.254", "100.64.0.1", "0.0.0.0", "::1", "::", "fd00::1", "fe80::1", "::ffff:127.0.0.1", "::ffff:10.0.0.1"]) {
+      assert.equal(isPublicAddress(address), false, address);
+    }
+  });
+
+  test("accepts public addresses", () => {
+    for (const address of ["8.8.8.8", "1.1.1.1", "172.32.0.1", "2606:4700:4700::1111", "::ffff:8.8.8.8"]) {
+      assert.equal(isPublicAddress(address), true, address);
+    }
+  });
+});
@@ -0,0 +1,319 @@
+import fs from "fs";
+import path from "path";
+import dns from "dns";
+import net from "net";
+import { execFile } from "child_process";
+import { Readable, Transform } from "stream";
+import { pipeline } from "stream/promises";
+import type { ReadableStream } from "stream/web";
+import { promisify } from "util";
+
+const execFileAsync = promisify(execFile);
+
+const DEFAULT_MAX_BYTES = 500 * 1024 * 1024;
+const MAX_REDIRECTS = 5;
+
+// Loopback, private, link-local, carrier-grade NAT, multicast and reserved
+// ranges. A URL resolving into any of them could reach the server's own
+// network rather than the public internet.
+const NON_PUBLIC_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+  ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 4], ["240.0.0.0", 4],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128], ["::1", 128], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8], ["64:ff9b::", 96],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+// Content types accepted from direct media URLs. Servers often label media
+// generically, so octet-stream is allowed and left to ffmpeg to decode.
+const MEDIA_CONTENT_TYPES = [/^video\//, /^audio\//, /^application\/octet-stream$/, /^application\/ogg$/];
+
+const MEDIA_EXTENSIONS = /\.(mp4|m4v|mov|avi|mkv|webm|ogg|ogv|mp3|m4a|wav|flac|aac|opus)$/i;
+
+const CONTENT_TYPE_EXTENSIONS: Record<string, string> = {
+  "video/mp4": ".mp4",
+  "video/quicktime": ".mov",
+  "video/x-msvideo": ".avi",
+  "video/webm": ".webm",
+  "video/x-matroska": ".mkv",
+  "audio/mpeg": ".mp3",
+  "audio/mp4": ".m4a",
+  "audio/wav": ".wav",
+  "audio/x-wav": ".wav",
+  "audio/ogg": ".ogg",
+  "audio/webm": ".webm",
+  "application/ogg": ".ogg",
+};
+
+// A download failure with a stable code. `retryable: false` marks problems a
+// retry can't fix, such as an oversized file or a page that isn't media.
+export class DownloadError extends Error {
+  constructor(readonly code: string, message: string, readonly retryable = true) {
+    super(message);
+    this.name = "DownloadError";
+  }
+}
+
+export interface DownloadedMedia {
+  filePath: string;
+  bytes: number;
+  contentType?: string;
+}
+
+export interface MediaDownloader {
+  readonly name: string;
+  // Saves the media behind `url` into `destDir`, which the caller cleans up.
+  download(url: string, destDir: string): Promise<DownloadedMedia>;
+}
+
+export interface DirectDownloaderOptions {
+  maxBytes?: number;
+  timeoutMs?: number;
+  // Allows hosts on loopback and private networks, for local development
+  // and tests.
+  allowPrivateHosts?: boolean;
+}
+
+// False for addresses on loopback, private or otherwise non-public networks,
+// including IPv4 addresses written in IPv6 form.
+export function isPublicAddress(address: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) return isPublicAddress(mapped[1]);
+
+  const family = net.isIPv4(address) ? "ipv4" : net.isIPv6(address) ? "ipv6" : null;
+  return family !== null && !NON_PUBLIC_ADDRESSES.check(address, family);
+}
+
+// Rejects URLs that aren't http(s) or whose host resolves to a non-public
+// address. Every address the name resolves to is checked, so a host can't
+// slip a private address in behind a public one.
+export async function assertPublicUrl(url: string): Promise<void> {
+  const { protocol, hostname } = new URL(url);
+  if (protocol !== "http:" && protocol !== "https:") {
+    throw new DownloadError("unsupported_url", `Only http and https URLs can be downloaded, got ${protocol}`, false);
+  }
+
+  const host = hostname.replace(/^\[|\]$/g, "");
+  let addresses: string[];
+  try {
+    addresses = net.isIP(host) ? [host] : (await dns.promises.lookup(host, { all: true })).map(entry => entry.address);
+  } catch (error) {
+    throw new DownloadError("download_failed", `Could not resolve ${host}: ${(error as Error).message}`);
+  }
+
+  if (addresses.some(address => !isPublicAddress(address))) {
+    throw new DownloadError("blocked_address", `${host} is on a private or local network and can't be downloaded from`, false);
+  }
+}
+
+// True when the URL path ends in a known audio/video extension.
+export function isDirectMediaUrl(url: string): boolean {
+  try {
+    return MEDIA_EXTENSIONS.test(new URL(url).pathname);
+  } catch {
+    return false;
+  }
+}
+
+// Fetches a media file over HTTP(S), checking the declared type and size up
+// front and enforcing the size limit while streaming to disk.
+export class DirectMediaDownloader implements MediaDownloader {
+  readonly name = "direct";
+  private maxBytes: number;
+
+  constructor(private options: DirectDownloaderOptions = {}) {
+    this.maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+  }
+
+  async download(url: string, destDir: string): Promise<DownloadedMedia> {
+    const signal = this.options.timeoutMs ? AbortSignal.timeout(this.options.timeoutMs) : undefined;
+
+    // Redirects are followed by hand so every hop gets the address check.
+    let currentUrl = url;
+    let response: Response;
+    for (let redirects = 0; ; redirects++) {
+      if (this.options.allowPrivateHosts) {
+        const protocol = new URL(currentUrl).protocol;
+        if (protocol !== "http:" && protocol !== "https:") {
+          throw new DownloadError("unsupported_url", `Only http and https URLs can be downloaded, got ${protocol}`, false);
+        }
+      } else {
+        await assertPublicUrl(currentUrl);
+      }
+
+      try {
+        response = await fetch(currentUrl, { redirect: "manual", signal });
+      } catch (error) {
+        throw new DownloadError("download_failed", `Could not reach ${currentUrl}: ${(error as Error).message}`);
+      }
+
+      const location = response.headers.get("location");
+      if (response.status < 300 || response.status >= 400 || !location) break;
+
+      await response.body?.cancel();
+      if (redirects === MAX_REDIRECTS) {
+        throw new DownloadError("download_failed", `Gave up after ${MAX_REDIRECTS} redirects`, false);
+      }
+      currentUrl = new URL(location, currentUrl).toString();
+    }
+
+    if (!response.ok || !response.body) {
+      // Client errors other than timeouts and rate limits won't change on retry.
+      const retryable = response.status >= 500 || response.status === 408 || response.status === 429;
+      throw new DownloadError("download_failed", `Download failed with HTTP ${response.status}`, retryable);
+    }
+
+    const contentType = response.headers.get("content-type")?.split(";")[0].trim().toLowerCase() || undefined;
+    if (contentType && !MEDIA_CONTENT_TYPES.some(pattern => pattern.test(contentType))) {
+      await response.body.cancel();
+      throw new DownloadError(
+        "unsupported_content_type",
+        `The URL returned ${contentType}, not an audio or video file`,
+        false,
+      );
+    }
+
+    const declaredLength = Number(response.headers.get("content-length"));
+    if (declaredLength > this.maxBytes) {
+      await response.body.cancel();
+      throw new DownloadError("download_too_large", this.tooLargeMessage(), false);
+    }
+
+    const extension = path.extname(new URL(currentUrl).pathname)
+      || (contentType && CONTENT_TYPE_EXTENSIONS[contentType])
+      || "";
+    const filePath = path.join(destDir, `media${extension}`);
+
+    let bytes = 0;
+    const maxBytes = this.maxBytes;
+    const limiter = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        bytes += chunk.length;
+        if (bytes > maxBytes) {
+          callback(new DownloadError("download_too_large", "", false));
+        } else {
+          callback(null, chunk);
+        }
+      },
+    });
+
+    try {
+      await pipeline(Readable.fromWeb(response.body as ReadableStream<Uint8Array>), limiter, fs.createWriteStream(filePath));
+    } catch (error) {
+      await fs.promises.rm(filePath, { force: true });
+      if (error instanceof DownloadError) {
+        throw new DownloadError(error.code, this.tooLargeMessage(), false);
+      }
+      throw new DownloadError("download_failed", `Download was interrupted: ${(error as Error).message}`);
+    }
+
+    return { filePath, bytes, contentType };
+  }
+
+  private tooLargeMessage() {
+    return `The media file is larger than the ${Math.round(this.maxBytes / (1024 * 1024))}MB limit`;
+  }
+}
+
+export interface YtDlpDownloaderOptions {
+  binaryPath: string;
+  maxBytes?: number;
+  timeoutMs?: number;
+  allowPrivateHosts?: boolean;
+}
+
+// Resolves page URLs (YouTube, Vimeo and anything else yt-dlp supports) to
+// their media, preferring an audio-only stream since only the audio is used.
+export class YtDlpDownloader implements MediaDownloader {
+  readonly name = "yt-dlp";
+
+  constructor(private options: YtDlpDownloaderOptions) {}
+
+  async download(url: string, destDir: string): Promise<DownloadedMedia> {
+    const maxBytes = this.options.maxBytes ?? DEFAULT_MAX_BYTES;
+    if (!this.options.allowPrivateHosts) {
+      await assertPublicUrl(url);
+    }
+
+    let stdout: string;
+    try {
+      ({ stdout } = await execFileAsync(this.options.binaryPath, [
+        "--no-playlist",
+        "--no-progress",
+        "-f", "bestaudio/best",
+        "--max-filesize", String(maxBytes),
+        "-o", path.join(destDir, "media.%(ext)s"),
+        "--print", "after_move:filepath",
+        url,
+      ], { timeout: this.options.timeoutMs, maxBuffer: 16 * 1024 * 1024 }));
+    } catch (error) {
+      const err = error as NodeJS.ErrnoException & { stderr?: string };
+      if (err.code === "ENOENT") {
+        throw new DownloadError(
+          "downloader_missing",
+          `yt-dlp was not found at "${this.options.binaryPath}". Install it or set YTDLP_PATH.`,
+          false,
+        );
+      }
+      const detail = err.stderr?.trim().split("\n").pop() || err.message;
+      const retryable = !/unsupported url|video unavailable|private video/i.test(detail);
+      throw new DownloadError("download_failed", `yt-dlp could not download the media: ${detail}`, retryable);
+    }
+
+    // yt-dlp skips files over --max-filesize without failing, so nothing is printed.
+    const filePath = stdout.trim().split("\n").pop();
+    if (!filePath || !fs.existsSync(filePath)) {
+      throw new DownloadError("download_too_large", `The media is larger than the ${Math.round(maxBytes / (1024 * 1024))}MB limit or could not be saved`, false);
+    }
+
+    return { filePath, bytes: (await fs.promises.stat(filePath)).size };
+  }
+}
+
+// Sends URLs that point straight at a media file to the direct downloader and
+// everything else to the page downloader, when one is configured.
+export class RoutingMediaDownloader implements MediaDownloader {
+  readonly name = "routing";
+
+  constructor(private direct: MediaDownloader, private page: MediaDownloader | null) {}
+
+  download(url: string, destDir: string): Promise<DownloadedMedia> {
+    if (this.page && !isDirectMediaUrl(url)) {
+      return this.page.download(url, destDir);
+    }
+    return this.direct.download(url, destDir);
+  }
+}
+
+// PAGE_DOWNLOADER picks how non-media URLs are resolved: "yt-dlp" (default)
+// or "none", which only accepts direct media URLs.
+export function createMediaDownloader(env: NodeJS.ProcessEnv = process.env): MediaDownloader {
+  const maxBytes = env.MEDIA_DOWNLOAD_MAX_BYTES ? Number(env.MEDIA_DOWNLOAD_MAX_BYTES) : DEFAULT_MAX_BYTES;
+  const timeoutMs = env.MEDIA_DOWNLOAD_TIMEOUT_MS ? Number(env.MEDIA_DOWNLOAD_TIMEOUT_MS) : 30 * 60 * 1000;
+  const allowPrivateHosts = env.MEDIA_DOWNLOAD_ALLOW_PRIVATE_HOSTS === "true";
+  const direct = new DirectMediaDownloader({ maxBytes, timeoutMs, allowPrivateHosts });
+
+  const pageDownloader = env.PAGE_DOWNLOADER || "yt-dlp";
+  switch (pageDownloader) {
+    case "yt-dlp":
+      return new RoutingMediaDownloader(direct, new YtDlpDownloader({
+        binaryPath: env.YTDLP_PATH || "yt-dlp",
+        maxBytes,
+        timeoutMs,
+        allowPrivateHosts,
+      }));
+
+    case "none":
+      return new RoutingMediaDownloader(direct, null);
+
+    default:
+      throw new Error(`Unknown PAGE_DOWNLOADER: ${pageDownloader}`);
+  }
+}
+
+export const mediaDownloader = createMediaDownloader();
@@ -0,0 +1,64 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { JsonArrayItemParser } from "./json-stream";
+
+// Feeds `text` in pieces of `size` characters and collects what each push returns.
+function pushInPieces(text: string, size: number): unknown[][] {
+  const parser = new JsonArrayItemParser();
+  const results: unknown[][] = [];
+  for (let i = 0; i < text.length; i += size) {
+    results.push(parser.push(text.slice(i, i + size)));
+  }
+  return results;
+}
+
+const CARDS = [
+  { question: "What does \"mitosis\" produce?", answer: "Two identical {daughter} cells" },
+  { question: "Escape a backslash?", answer: "Write \\\\ in a string, or \\u005c" },
+  { question: "Which bracket closes an array?", answer: "]" },
+];
+const DOCUMENT = JSON.stringify({ flashcards: CARDS });
+
+describe("JsonArrayItemParser", () => {
+  test("returns every array item from a whole document", () => {
+    assert.deepEqual(new JsonArrayItemParser().push(DOCUMENT), CARDS);
+  });
+
+  test("reassembles items split at any point, including mid-string and mid-escape", () => {
+    for (const size of [1, 2, 3, 7]) {
+      const results = pushInPieces(DOCUMENT, size);
+      assert.deepEqual(results.flat(), CARDS, `pieces of ${size}`);
+    }
+  });
+
+  test("returns each item as soon as its closing brace arrives", () => {
+    const parser = new JsonArrayItemParser();
+    const firstEnd = DOCUMENT.indexOf("},") + 1;
+
+    assert.deepEqual(parser.push(DOCUMENT.slice(0, firstEnd - 1)), []);
+    assert.deepEqual(parser.push(DOCUMENT.slice(firstEnd - 1, firstEnd)), [CARDS[0]]);
+    assert.deepEqual(parser.push(DOCUMENT.slice(firstEnd)), CARDS.slice(1));
+    assert.equal(parser.content, DOCUMENT);
+  });
+
+  test("keeps arrays inside an item part of that item", () => {
+    const card = {
+      question: "Largest planet?",
+      answer: "Jupiter",
+      options: [{ text: "Jupiter", correct: true }, { text: "Saturn", correct: false }],
+    };
+    const results = pushInPieces(JSON.stringify({ flashcards: [card, CARDS[0]] }), 5);
+
+    assert.deepEqual(results.flat(), [card, CARDS[0]]);
+  });
+
+  test("ignores a Markdown code fence around the JSON", () => {
+    const fenced = "Here are your cards:\n```json\n" + JSON.stringify({ flashcards: CARDS }, null, 2) + "\n```\n";
+    assert.deepEqual(pushInPieces(fenced, 4).flat(), CARDS);
+  });
+
+  test("skips a malformed item and carries on with the next", () => {
+    const text = '{"flashcards": [{"question": "Missing comma" "answer": "x"}, {"question": "Fine?", "answer": "Yes"}]}';
+    assert.deepEqual(pushInPieces(text, 6).flat(), [{ question: "Fine?", answer: "Yes" }]);
+  });
+});
@@ -0,0 +1,58 @@
+// Picks complete objects out of a JSON document as it streams in. Every
+// object whose parent is an array is returned once its closing brace arrives,
+// so `{"flashcards": [{...}, {...` yields the first card while the rest of
+// the response is still being written. Text around the JSON (such as a
+// Markdown code fence) is ignored.
+export class JsonArrayItemParser {
+  private text = "";
+  private scanned = 0;
+  private stack: string[] = [];
+  private inString = false;
+  private escaped = false;
+  // Start offset and nesting depth of the array item being read, if any.
+  private itemStart = -1;
+  private itemDepth = 0;
+
+  // Everything received so far.
+  get content(): string {
+    return this.text;
+  }
+
+  push(chunk: string): unknown[] {
+    this.text += chunk;
+    const items: unknown[] = [];
+
+    for (; this.scanned < this.text.length; this.scanned++) {
+      const char = this.text[this.scanned];
+
+      if (this.inString) {
+        if (this.escaped) this.escaped = false;
+        else if (char === "\\") this.escaped = true;
+        else if (char === "\"") this.inString = false;
+        continue;
+      }
+
+      if (char === "\"") {
+        this.inString = true;
+      } else if (char === "{" || char === "[") {
+        if (char === "{" && this.itemStart < 0 && this.stack[this.stack.length - 1] === "[") {
+          this.itemStart = this.scanned;
+          this.itemDepth = this.stack.length;
+        }
+        this.stack.push(char);
+      } else if (char === "}" || char === "]") {
+        this.stack.pop();
+        if (char === "}" && this.itemStart >= 0 && this.stack.length === this.itemDepth) {
+          try {
+            items.push(JSON.parse(this.text.slice(this.itemStart, this.scanned + 1)));
+          } catch {
+            // Malformed item; the rest of the stream may still be usable.
+          }
+          this.itemStart = -1;
+        }
+      }
+    }
+
+    return items;
+  }
+}
@@ -0,0 +1,206 @@
+import fs from "fs";
+import OpenAI from "openai";
+
+// the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+const DEFAULT_MODEL = "gpt-4o";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+// Per-request overrides of the deployment defaults.
+export interface LLMSettings {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface CompletionRequest extends LLMSettings {
+  messages: ChatMessage[];
+  // Ask for a JSON object response where the backend supports it.
+  json?: boolean;
+}
+
+export interface CompletionResult {
+  content: string;
+  model: string;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+  // Yields the response content in pieces as the model produces it.
+  stream(request: CompletionRequest): AsyncIterable<string>;
+}
+
+export interface OpenAIChatProviderOptions extends LLMSettings {
+  // Some OpenAI-compatible servers reject response_format; set false for those.
+  supportsJsonMode?: boolean;
+}
+
+// Chat completions against OpenAI or any server exposing the same API
+// (Ollama, llama.cpp server, vLLM) via the client's baseURL.
+export class OpenAIChatProvider implements LLMProvider {
+  constructor(
+    readonly name: string,
+    private client: OpenAI,
+    private defaults: OpenAIChatProviderOptions = {},
+  ) {}
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const model = request.model ?? this.defaults.model ?? DEFAULT_MODEL;
+    const response = await this.client.chat.completions.create({
+      ...this.params(request),
+      model,
+    });
+
+    return {
+      content: response.choices[0]?.message.content || "",
+      model: response.model || model,
+    };
+  }
+
+  async *stream(request: CompletionRequest): AsyncIterable<string> {
+    const stream = await this.client.chat.completions.create({
+      ...this.params(request),
+      model: request.model ?? this.defaults.model ?? DEFAULT_MODEL,
+      stream: true,
+    });
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) yield delta;
+    }
+  }
+
+  private params(request: CompletionRequest) {
+    return {
+      messages: request.messages,
+      temperature: request.temperature ?? this.defaults.temperature,
+      max_tokens: request.maxTokens ?? this.defaults.maxTokens,
+      ...(request.json && this.defaults.supportsJsonMode !== false
+        ? { response_format: { type: "json_object" as const } }
+        : {}),
+    };
+  }
+}
+
+// Matches the fixture transcription provider's transcript, including the
+// segment positions each card cites.
+const DEFAULT_MOCK_FLASHCARDS = JSON.stringify({
+  flashcards: [
+    { question: "What process do plants use to convert light energy into chemical energy?", answer: "Photosynthesis.", sourceSegments: [1, 1] },
+    { question: "Where in the plant cell does photosynthesis take place?", answer: "In the chloroplasts.", sourceSegments: [2, 2] },
+    { question: "What pigment makes chloroplasts green?", answer: "Chlorophyll.", sourceSegments: [2, 2] },
+    { question: "What do the light-dependent reactions produce?", answer: "ATP and NADPH.", sourceSegments: [3, 3] },
+    { question: "Where does the Calvin cycle take place?", answer: "In the stroma of the chloroplast.", sourceSegments: [4, 4] },
+    { question: "What does the Calvin cycle fix carbon dioxide into?", answer: "Glucose.", sourceSegments: [4, 4] },
+    { question: "Which by-product is released when water is split?", answer: "Oxygen.", sourceSegments: [5, 5] },
+    { question: "Where do the light-dependent reactions happen?", answer: "In the thylakoid membranes.", sourceSegments: [3, 3] },
+  ],
+});
+
+const DEFAULT_MOCK_TEXT = "This is a canned response from the mock LLM provider.";
+
+const MOCK_STREAM_PIECE_LENGTH = 24;
+
+type MockResponder = (request: CompletionRequest) => string;
+
+// Replays scripted responses in order, repeating the last one once the script
+// runs out. Without a script it answers JSON requests with a fixed flashcard
+// set and anything else with a fixed sentence.
+export class MockLLMProvider implements LLMProvider {
+  readonly name = "mock";
+  readonly requests: CompletionRequest[] = [];
+  private calls = 0;
+
+  constructor(private script: string[] | MockResponder = []) {}
+
+  static fromFile(scriptPath: string): MockLLMProvider {
+    const script = JSON.parse(fs.readFileSync(scriptPath, "utf8"));
+    if (!Array.isArray(script)) {
+      throw new Error("LLM mock script must be a JSON array of responses");
+    }
+    return new MockLLMProvider(script.map(entry => typeof entry === "string" ? entry : JSON.stringify(entry)));
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    return { content: this.respond(request), model: request.model ?? "mock" };
+  }
+
+  // Replays the same response in small pieces, like a streaming model.
+  async *stream(request: CompletionRequest): AsyncIterable<string> {
+    const content = this.respond(request);
+    for (let i = 0; i < content.length; i += MOCK_STREAM_PIECE_LENGTH) {
+      yield content.slice(i, i + MOCK_STREAM_PIECE_LENGTH);
+    }
+  }
+
+  private respond(request: CompletionRequest): string {
+    this.requests.push(request);
+    const index = this.calls++;
+
+    if (typeof this.script === "function") {
+      return this.script(request);
+    }
+    if (this.script.length > 0) {
+      return this.script[Math.min(index, this.script.length - 1)];
+    }
+    return request.json ? DEFAULT_MOCK_FLASHCARDS : DEFAULT_MOCK_TEXT;
+  }
+}
+
+function parseOptionalNumber(value: string | undefined, name: string): number | undefined {
+  if (value === undefined || value === "") return undefined;
+  const parsed = Number(value);
+  if (Number.isNaN(parsed)) {
+    throw new Error(`${name} must be a number`);
+  }
+  return parsed;
+}
+
+// LLM_PROVIDER picks the implementation: "openai" (default),
+// "openai-compatible" (requires LLM_BASE_URL) or "mock".
+export function createLLMProvider(env: NodeJS.ProcessEnv = process.env): LLMProvider {
+  const provider = env.LLM_PROVIDER || "openai";
+  const defaults: OpenAIChatProviderOptions = {
+    model: env.LLM_MODEL || undefined,
+    temperature: parseOptionalNumber(env.LLM_TEMPERATURE, "LLM_TEMPERATURE"),
+    maxTokens: parseOptionalNumber(env.LLM_MAX_TOKENS, "LLM_MAX_TOKENS"),
+    supportsJsonMode: env.LLM_JSON_MODE !== "false",
+  };
+
+  switch (provider) {
+    case "openai":
+      return new OpenAIChatProvider(
+        "openai",
+        new OpenAI({ apiKey: env.LLM_API_KEY || env.OPEN_API_VIDTUT || "default_key" }),
+        defaults,
+      );
+
+    case "openai-compatible":
+      if (!env.LLM_BASE_URL) {
+        throw new Error("LLM_BASE_URL must be set when LLM_PROVIDER is openai-compatible");
+      }
+      if (!defaults.model) {
+        throw new Error("LLM_MODEL must be set when LLM_PROVIDER is openai-compatible");
+      }
+      return new OpenAIChatProvider(
+        "openai-compatible",
+        // Local servers usually ignore the key, but the client requires one.
+        new OpenAI({ apiKey: env.LLM_API_KEY || "not-needed", baseURL: env.LLM_BASE_URL }),
+        defaults,
+      );
+
+    case "mock":
+      return env.LLM_MOCK_SCRIPT_PATH
+        ? MockLLMProvider.fromFile(env.LLM_MOCK_SCRIPT_PATH)
+        : new MockLLMProvider();
+
+    default:
+      throw new Error(`Unknown LLM_PROVIDER: ${provider}`);
+  }
+}
+
+export const llmProvider = createLLMProvider();
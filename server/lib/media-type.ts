@@ -0,0 +1,82 @@
+import fs from "fs";
+
+export type MediaKind = "audio" | "video";
+
+export interface DetectedMediaType {
+  mimeType: string;
+  kind: MediaKind;
+}
+
+// Extensions the upload form offers; the container is still verified by sniffing.
+export const MEDIA_UPLOAD_EXTENSIONS = [
+  ".mp4", ".m4v", ".mov", ".avi", ".webm", ".mkv",
+  ".mp3", ".m4a", ".wav", ".ogg", ".oga", ".flac",
+];
+
+const HEADER_BYTES = 64;
+
+function ascii(header: Buffer, start: number, end: number): string {
+  return header.subarray(start, end).toString("latin1");
+}
+
+// ISO base media files (MP4, MOV, M4A) identify themselves with a brand.
+function detectIsoBmff(header: Buffer): DetectedMediaType {
+  const brand = ascii(header, 8, 12);
+  if (brand === "M4A " || brand === "M4B " || brand === "M4P ") {
+    return { mimeType: "audio/mp4", kind: "audio" };
+  }
+  if (brand === "qt  ") {
+    return { mimeType: "video/quicktime", kind: "video" };
+  }
+  return { mimeType: "video/mp4", kind: "video" };
+}
+
+// Matroska and WebM share the EBML header and differ only in the DocType string.
+function detectEbml(header: Buffer): DetectedMediaType {
+  return header.includes("webm", 0, "latin1")
+    ? { mimeType: "video/webm", kind: "video" }
+    : { mimeType: "video/x-matroska", kind: "video" };
+}
+
+// MPEG audio frames start with an 11-bit sync word; layer bits 00 are reserved.
+function isMpegAudioFrame(header: Buffer): boolean {
+  return header.length >= 2 && header[0] === 0xff && (header[1] & 0xe0) === 0xe0 && (header[1] & 0x06) !== 0;
+}
+
+// Identifies the container from the file's leading bytes, ignoring whatever
+// type the browser claimed. Returns null for anything that isn't supported media.
+export function detectMediaType(header: Buffer): DetectedMediaType | null {
+  if (header.length >= 12 && ascii(header, 4, 8) === "ftyp") {
+    return detectIsoBmff(header);
+  }
+  if (header.length >= 12 && ascii(header, 0, 4) === "RIFF") {
+    const format = ascii(header, 8, 12);
+    if (format === "WAVE") return { mimeType: "audio/wav", kind: "audio" };
+    if (format === "AVI ") return { mimeType: "video/x-msvideo", kind: "video" };
+    return null;
+  }
+  if (header.length >= 4 && header.readUInt32BE(0) === 0x1a45dfa3) {
+    return detectEbml(header);
+  }
+  if (ascii(header, 0, 4) === "OggS") {
+    return { mimeType: "audio/ogg", kind: "audio" };
+  }
+  if (ascii(header, 0, 4) === "fLaC") {
+    return { mimeType: "audio/flac", kind: "audio" };
+  }
+  if (ascii(header, 0, 3) === "ID3" || isMpegAudioFrame(header)) {
+    return { mimeType: "audio/mpeg", kind: "audio" };
+  }
+  return null;
+}
+
+export async function sniffMediaType(filePath: string): Promise<DetectedMediaType | null> {
+  const handle = await fs.promises.open(filePath, "r");
+  try {
+    const header = Buffer.alloc(HEADER_BYTES);
+    const { bytesRead } = await handle.read(header, 0, HEADER_BYTES, 0);
+    return detectMediaType(header.subarray(0, bytesRead));
+  } finally {
+    await handle.close();
+  }
+}
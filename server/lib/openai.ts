@@ -1,48 +1,124 @@
-import OpenAI from "openai";
-
-// the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-const openai = new OpenAI({ 
-  apiKey: process.env.OPEN_API_VIDTUT || "default_key"
-});
+import type { CardType, GenerationOptions, SourceKind } from "@shared/schema";
+import { clozeIndices } from "@shared/cloze";
+import { llmProvider, type ChatMessage, type CompletionRequest, type LLMProvider, type LLMSettings } from "./llm";
+import { mapWithConcurrency } from "./concurrency";
+import { JsonArrayItemParser } from "./json-stream";
 
 export interface FlashcardPair {
+  cardType: CardType;
+  // For a cloze note, the note with its deletions marked up; `answer` is
+  // empty and the caller makes one card per deletion.
   question: string;
   answer: string;
+  // Wrong answers offered alongside `answer` on multiple-choice cards.
+  distractors?: string[];
+  // First and last transcript segment position the card was derived from.
+  sourceSegments?: [number, number];
+}
+
+export interface SegmentReference {
+  position: number;
+  text: string;
+}
+
+// Difficulty, focus topics, answer length, audience and card types from the
+// upload's generation options.
+export type FlashcardStyle = Pick<GenerationOptions, "difficulty" | "focusTopics" | "answerLength" | "audienceLevel" | "cardTypes">;
+
+export interface GenerateFlashcardsOptions extends FlashcardStyle {
+  // Exact number of cards to produce; defaults to 8-10.
+  count?: number;
+  // Extra guidance from the user, e.g. "focus on definitions".
+  instructions?: string;
+  // Questions that already exist for this video and must not be repeated.
+  existingQuestions?: string[];
+  // Timestamped transcript segments; when given, the transcript is sent as
+  // numbered segments and each card cites the range it came from.
+  segments?: SegmentReference[];
+  // What the text was taken from; only changes how it is described to the model.
+  sourceKind?: SourceKind;
+  // Overrides the deployment's model, temperature and max tokens.
+  llm?: LLMSettings;
+  provider?: LLMProvider;
 }
 
-export async function generateFlashcards(transcription: string): Promise<FlashcardPair[]> {
-  // Validate input transcription
-  if (!transcription || transcription.length < 100) {
-    throw new Error("Transcription is too short to generate meaningful flashcards");
+// Streams cards from the model as each one is complete, so callers can save
+// and show the first cards while the rest are still being generated.
+export async function* streamFlashcards(transcription: string, options: GenerateFlashcardsOptions = {}): AsyncGenerator<FlashcardPair> {
+  // Whether the text is worth studying is decided by the transcript
+  // assessment before this is called.
+  if (!transcription.trim()) {
+    throw new Error("Transcription is empty");
   }
-  
-  if (transcription.toLowerCase().includes("error") || 
-      transcription.toLowerCase().includes("failed") ||
-      transcription.toLowerCase().includes("api key") ||
-      transcription.toLowerCase().includes("quota") ||
-      transcription.toLowerCase().includes("billing") ||
-      transcription.length > 50000) {
-    throw new Error("Cannot generate flashcards from error messages or invalid transcriptions");
+
+  try {
+    const provider = options.provider ?? llmProvider;
+    yield* transcription.length > SECTION_MAX_CHARS
+      ? mapReduceFlashcards(transcription, options, provider)
+      : streamCards(provider, { ...options.llm, json: true, messages: flashcardMessages(transcription, options) }, options.segments);
+
+  } catch (error) {
+    console.error("Failed to generate flashcards:", error);
+    
+    // Check if it's an API key issue
+    if (error instanceof Error) {
+      if (error.message.includes("Incorrect API key") || error.message.includes("401")) {
+        console.error("OpenAI API Key Error: Please check your OPEN_API_VIDTUT secret");
+        throw new Error("Invalid OpenAI API key. Please check your OPEN_API_VIDTUT secret in Replit.");
+      }
+      if (error.message.includes("quota") || error.message.includes("billing")) {
+        console.error("OpenAI API Quota Error:", error.message);
+        throw new Error("OpenAI API quota exceeded. Please check your billing.");
+      }
+      if (error.message.includes("rate limit")) {
+        console.error("OpenAI API Rate Limit Error:", error.message);
+        throw new Error("OpenAI API rate limit exceeded. Please try again later.");
+      }
+    }
+    
+    // For other errors, throw them to be handled by the caller
+    throw new Error(`Failed to generate flashcards: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
+}
 
-  // Check if transcription contains actual educational content
-  const educationalKeywords = ['learn', 'understand', 'concept', 'definition', 'explain', 'example', 'important', 'key', 'topic', 'subject'];
-  const hasEducationalContent = educationalKeywords.some(keyword => 
-    transcription.toLowerCase().includes(keyword)
-  );
-  
-  if (!hasEducationalContent) {
-    throw new Error("Transcription does not appear to contain educational content suitable for flashcards");
+// Collects the whole streamed set, for callers that don't need cards early.
+export async function generateFlashcards(transcription: string, options: GenerateFlashcardsOptions = {}): Promise<FlashcardPair[]> {
+  const cards: FlashcardPair[] = [];
+  for await (const card of streamFlashcards(transcription, options)) {
+    cards.push(card);
   }
+  return cards;
+}
 
-  try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "system",
-          content: `You are an expert educational content creator. Generate exactly 8-10 high-quality flashcard question-answer pairs from the provided video transcription. 
+// Transcripts longer than this are generated in sections and consolidated.
+const SECTION_MAX_CHARS = 24000;
+// Text repeated at the start of each section so ideas spanning a boundary
+// are seen whole at least once.
+const SECTION_OVERLAP_CHARS = 1500;
+const DEFAULT_CARDS_PER_SECTION = 8;
+const MAX_CARDS = 50;
+const DISTRACTOR_COUNT = 3;
+
+interface TranscriptSection {
+  text: string;
+  segments?: SegmentReference[];
+}
+
+function flashcardMessages(
+  transcription: string,
+  options: GenerateFlashcardsOptions,
+  section?: { index: number; total: number },
+): ChatMessage[] {
+  const material = SOURCE_DESCRIPTIONS[options.sourceKind ?? "media"];
+  const sectionNote = section
+    ? `\nThis is part ${section.index + 1} of ${section.total} of a longer ${material}. Only use what this part covers.\n`
+    : "";
 
+  return [
+    {
+      role: "system",
+      content: `You are an expert educational content creator. Generate exactly ${options.count ?? "8-10"} high-quality flashcards from the provided ${material}. 
+${sectionNote}
 CRITICAL REQUIREMENTS:
 - Questions MUST be directly based on the specific content provided
 - Do NOT create generic or unrelated questions
@@ -56,56 +132,343 @@ VALIDATION:
 - Each question must reference specific information from the transcription
 - Answers must be factually accurate to the content provided
 - Do not add external knowledge not mentioned in the transcription
-
+${styleGuidance(options)}${cardTypeGuidance(options, material)}${options.segments?.length ? `
+SOURCES:
+- Each line of the ${material} starts with a segment number in square brackets
+- For every flashcard, set "sourceSegments" to the first and last segment number the card is based on
+` : ""}
 Respond with JSON in this exact format:
 {
   "flashcards": [
+${cardFormats(options, Boolean(options.segments?.length), true).join(",\n")}
+  ]
+}`,
+    },
     {
-      "question": "Based on the content, what is [specific concept from transcription]?",
-      "answer": "According to the material, [specific answer from transcription content]"
+      role: "user",
+      content: buildUserPrompt(transcription, options),
+    },
+  ];
+}
+
+// Streams a completion and yields each card as soon as it is complete.
+async function* streamCards(provider: LLMProvider, request: CompletionRequest, segments?: SegmentReference[]): AsyncGenerator<FlashcardPair> {
+  const parser = new JsonArrayItemParser();
+  let cardCount = 0;
+  for await (const piece of provider.stream(request)) {
+    for (const item of parser.push(piece)) {
+      const card = toFlashcardPair(item, segments);
+      if (card) {
+        cardCount++;
+        yield card;
+      }
     }
-  ]
-}`
-        },
-        {
-          role: "user",
-          content: `Generate flashcards from this video transcription:\n\n${transcription}`
-        }
-      ],
-      response_format: { type: "json_object" },
-    });
+  }
 
-    const result = JSON.parse(response.choices[0].message.content || "{}");
-    
+  // Nothing usable came through; tell a malformed response apart from an empty list.
+  if (cardCount === 0) {
+    const result = JSON.parse(parser.content || "{}");
     if (!result.flashcards || !Array.isArray(result.flashcards)) {
-      throw new Error("Invalid response format from OpenAI");
+      throw new Error(`Invalid response format from ${provider.name}`);
     }
+  }
+}
 
-    return result.flashcards.map((card: any) => ({
-      question: card.question || "",
-      answer: card.answer || ""
-    })).filter((card: FlashcardPair) => card.question && card.answer);
+// Splits a long transcript into overlapping sections, on segment boundaries
+// when there are segments (so citations keep working) and on sentence
+// boundaries otherwise.
+function splitIntoSections(
+  transcription: string,
+  segments: SegmentReference[] | undefined,
+  maxChars = SECTION_MAX_CHARS,
+  overlapChars = SECTION_OVERLAP_CHARS,
+): TranscriptSection[] {
+  const units: { text: string; segment?: SegmentReference }[] = segments?.length
+    ? segments.map(segment => ({ text: segment.text, segment }))
+    : transcription.split(/(?<=[.!?])\s+/).flatMap(sentence =>
+        // Unpunctuated transcripts can come back as one huge "sentence".
+        Array.from({ length: Math.ceil(sentence.length / maxChars) }, (_, i) => ({
+          text: sentence.slice(i * maxChars, (i + 1) * maxChars),
+        })));
 
-  } catch (error) {
-    console.error("Failed to generate flashcards:", error);
-    
-    // Check if it's an API key issue
-    if (error instanceof Error) {
-      if (error.message.includes("Incorrect API key") || error.message.includes("401")) {
-        console.error("OpenAI API Key Error: Please check your OPEN_API_VIDTUT secret");
-        throw new Error("Invalid OpenAI API key. Please check your OPEN_API_VIDTUT secret in Replit.");
-      }
-      if (error.message.includes("quota") || error.message.includes("billing")) {
-        console.error("OpenAI API Quota Error:", error.message);
-        throw new Error("OpenAI API quota exceeded. Please check your billing.");
-      }
-      if (error.message.includes("rate limit")) {
-        console.error("OpenAI API Rate Limit Error:", error.message);
-        throw new Error("OpenAI API rate limit exceeded. Please try again later.");
-      }
+  const sections: TranscriptSection[] = [];
+  let current: typeof units = [];
+  let length = 0;
+
+  const flush = () => {
+    sections.push({
+      text: current.map(unit => unit.text).join(" "),
+      segments: segments?.length ? current.map(unit => unit.segment!) : undefined,
+    });
+    // Carry the tail of this section over as the start of the next one.
+    const overlap: typeof units = [];
+    let overlapLength = 0;
+    for (let i = current.length - 1; i > 0 && overlapLength + current[i].text.length <= overlapChars; i--) {
+      overlap.unshift(current[i]);
+      overlapLength += current[i].text.length;
     }
-    
-    // For other errors, throw them to be handled by the caller
-    throw new Error(`Failed to generate flashcards: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    current = overlap;
+    length = overlapLength;
+  };
+
+  for (const unit of units) {
+    if (length + unit.text.length > maxChars && current.length > 0) {
+      flush();
+    }
+    current.push(unit);
+    length += unit.text.length;
+  }
+  if (current.length > 0) flush();
+
+  return sections;
+}
+
+// Map-reduce for long transcripts: each section yields candidate cards (in
+// parallel, up to LLM_CONCURRENCY at a time), then one consolidation pass
+// merges duplicates and picks the final set evenly across the whole source.
+// Only the consolidated cards are streamed to the caller.
+async function* mapReduceFlashcards(
+  transcription: string,
+  options: GenerateFlashcardsOptions,
+  provider: LLMProvider,
+): AsyncGenerator<FlashcardPair> {
+  const sections = splitIntoSections(transcription, options.segments);
+  const target = Math.min(options.count ?? DEFAULT_CARDS_PER_SECTION * sections.length, MAX_CARDS);
+  // Over-generate per section so consolidation has room to choose.
+  const perSection = Math.max(3, Math.ceil((target / sections.length) * 1.5));
+  const concurrency = Number(process.env.LLM_CONCURRENCY || 3);
+
+  const candidates = await mapWithConcurrency(sections, concurrency, async (section, index) => {
+    const sectionOptions = { ...options, count: perSection, segments: section.segments };
+    const cards: FlashcardPair[] = [];
+    for await (const card of streamCards(provider, {
+      ...options.llm,
+      json: true,
+      messages: flashcardMessages(section.text, sectionOptions, { index, total: sections.length }),
+    }, section.segments)) {
+      cards.push(card);
+    }
+    return cards;
+  });
+
+  const material = SOURCE_DESCRIPTIONS[options.sourceKind ?? "media"];
+  const cited = Boolean(options.segments?.length);
+  let yielded = 0;
+  for await (const card of streamCards(provider, {
+    ...options.llm,
+    json: true,
+    messages: [
+      {
+        role: "system",
+        content: `You are consolidating flashcards that were generated separately from consecutive, overlapping parts of one long ${material}.
+
+Choose exactly ${target} flashcards for the final set:
+- Merge duplicates and near-duplicates into one card
+- Drop vague or generic cards
+- Cover the whole ${material} evenly, from beginning to end, rather than favouring one part
+- Keep the cards in the order their content appears
+- You may tighten the wording, but do not add facts that are not in the candidates
+${cited ? `- Keep the "sourceSegments" of the card each final card is based on\n` : ""}- Keep each card's type, with cloze markup and multiple-choice distractors intact
+${styleGuidance(options)}
+Respond with JSON in this exact format:
+{
+  "flashcards": [
+${cardFormats(options, cited, false).join(",\n")}
+  ]
+}`,
+      },
+      {
+        role: "user",
+        content: candidates
+          .map((cards, index) => `Part ${index + 1}:\n${JSON.stringify(cards.map(toModelCard))}`)
+          .join("\n\n"),
+      },
+    ],
+  }, options.segments)) {
+    yield card;
+    if (++yielded >= target) break;
+  }
+}
+
+// Cloze notes without a usable deletion are dropped like any malformed card;
+// multiple-choice cards without three usable distractors are kept as
+// question-answer cards.
+function toFlashcardPair(item: unknown, segments?: SegmentReference[]): FlashcardPair | null {
+  const card = item as { type?: unknown; text?: unknown; question?: unknown; answer?: unknown; distractors?: unknown; sourceSegments?: unknown };
+  if (card?.type === "cloze") {
+    if (typeof card.text !== "string" || clozeIndices(card.text).length === 0) return null;
+    return {
+      cardType: "cloze",
+      question: card.text,
+      answer: "",
+      sourceSegments: parseSourceSegments(card.sourceSegments, segments),
+    };
+  }
+
+  if (typeof card?.question !== "string" || typeof card.answer !== "string" || !card.question || !card.answer) {
+    return null;
+  }
+  const distractors = card.type === "multiple_choice" ? parseDistractors(card.distractors, card.answer) : undefined;
+  return {
+    cardType: distractors ? "multiple_choice" : "basic",
+    question: card.question,
+    answer: card.answer,
+    distractors,
+    sourceSegments: parseSourceSegments(card.sourceSegments, segments),
+  };
+}
+
+// The first three distinct distractors that aren't the answer itself.
+function parseDistractors(value: unknown, answer: string): string[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+
+  const seen = new Set([answer.trim().toLowerCase()]);
+  const distractors: string[] = [];
+  for (const item of value) {
+    if (typeof item !== "string" || !item.trim() || seen.has(item.trim().toLowerCase())) continue;
+    seen.add(item.trim().toLowerCase());
+    distractors.push(item.trim());
   }
+  return distractors.length >= DISTRACTOR_COUNT ? distractors.slice(0, DISTRACTOR_COUNT) : undefined;
+}
+
+// A card in the shape the model writes it, for sending candidates back.
+function toModelCard(card: FlashcardPair): Record<string, unknown> {
+  const content = card.cardType === "cloze" ? { type: "cloze", text: card.question }
+    : card.cardType === "multiple_choice" ? { type: "multiple_choice", question: card.question, answer: card.answer, distractors: card.distractors }
+    : { question: card.question, answer: card.answer };
+  return card.sourceSegments ? { ...content, sourceSegments: card.sourceSegments } : content;
+}
+
+const DIFFICULTY_GUIDANCE: Record<NonNullable<FlashcardStyle["difficulty"]>, string> = {
+  easy: "Keep questions straightforward: recall of key facts, terms and definitions",
+  medium: "Mix recall questions with questions that check understanding",
+  hard: "Favour questions that require applying, comparing or explaining ideas",
+  mixed: "Include a spread of easy, medium and hard questions",
+};
+
+const ANSWER_LENGTH_GUIDANCE: Record<NonNullable<FlashcardStyle["answerLength"]>, string> = {
+  short: "Keep answers to a few words or one short sentence",
+  medium: "Answers should be one or two sentences",
+  detailed: "Give thorough answers of a short paragraph, including the reasoning",
+};
+
+const AUDIENCE_GUIDANCE: Record<NonNullable<FlashcardStyle["audienceLevel"]>, string> = {
+  beginner: "Write for beginners new to the subject and avoid unexplained jargon",
+  intermediate: "Write for learners with some background in the subject",
+  advanced: "Write for advanced learners; technical terminology is fine",
+};
+
+// Extra prompt section for the chosen style; empty when nothing was chosen.
+function styleGuidance(style: FlashcardStyle): string {
+  const lines = [
+    style.difficulty && DIFFICULTY_GUIDANCE[style.difficulty],
+    style.answerLength && ANSWER_LENGTH_GUIDANCE[style.answerLength],
+    style.audienceLevel && AUDIENCE_GUIDANCE[style.audienceLevel],
+    style.focusTopics?.length && `Concentrate on these topics: ${style.focusTopics.join(", ")}`,
+  ].filter(Boolean);
+
+  return lines.length ? `\nSTYLE:\n${lines.map(line => `- ${line}`).join("\n")}\n` : "";
+}
+
+const CARD_TYPE_NAMES: Record<CardType, string> = {
+  basic: "question-answer",
+  cloze: "cloze",
+  multiple_choice: "multiple-choice",
+};
+
+// Extra prompt section for cloze and multiple-choice cards; empty when only
+// question-answer cards were asked for.
+function cardTypeGuidance(style: FlashcardStyle, material: string): string {
+  const types = style.cardTypes ?? ["basic"];
+  if (types.length === 1 && types[0] === "basic") return "";
+
+  let guidance = `
+CARD TYPES:
+- ${types.length > 1
+    ? `Mix ${types.map(type => CARD_TYPE_NAMES[type]).join(", ")} cards`
+    : `Make every flashcard a ${CARD_TYPE_NAMES[types[0]]} card`}
+`;
+  if (types.includes("cloze")) {
+    guidance += `- A cloze card is a sentence from the ${material}, lightly edited to stand on its own, with the key terms to recall marked as {{c1::term}}
+- Number separate deletions c1, c2, and so on; each number becomes its own card, so give terms that must be recalled together the same number
+- Only delete specific terms, names, numbers or short phrases, never most of the sentence
+- A short hint may follow the term: {{c1::chlorophyll::pigment}}
+`;
+  }
+  if (types.includes("multiple_choice")) {
+    guidance += `- A multiple-choice card has a question, its correct answer and exactly three "distractors": wrong answers a learner could plausibly pick
+- Take distractors from the same ${material} where possible, e.g. other terms, figures or steps it mentions, so they are plausible but clearly wrong
+- Keep distractors similar in length and form to the answer, and never partly correct
+`;
+  }
+  return guidance;
+}
+
+// Example entries for the response format, one per requested card type.
+function cardFormats(style: FlashcardStyle, cited: boolean, detailed: boolean): string[] {
+  const source = cited ? `, "sourceSegments": [12, 14]` : "";
+  const types = style.cardTypes ?? ["basic"];
+  return types.map(type => {
+    switch (type) {
+      case "cloze":
+        return detailed
+          ? `    { "type": "cloze", "text": "[Sentence from the transcription with its {{c1::key term}} and {{c2::another term}} marked]"${source} }`
+          : `    { "type": "cloze", "text": "..."${source} }`;
+
+      case "multiple_choice":
+        return detailed
+          ? `    {
+      "type": "multiple_choice",
+      "question": "[Question about a specific concept from transcription]",
+      "answer": "[Correct answer from transcription content]",
+      "distractors": ["[Plausible wrong answer]", "[Plausible wrong answer]", "[Plausible wrong answer]"]${cited ? `,
+      "sourceSegments": [12, 14]` : ""}
+    }`
+          : `    { "type": "multiple_choice", "question": "...", "answer": "...", "distractors": ["...", "...", "..."]${source} }`;
+
+      case "basic":
+        return detailed
+          ? `    {
+      "question": "Based on the content, what is [specific concept from transcription]?",
+      "answer": "According to the material, [specific answer from transcription content]"${cited ? `,
+      "sourceSegments": [12, 14]` : ""}
+    }`
+          : `    { "question": "...", "answer": "..."${source} }`;
+    }
+  });
+}
+
+const SOURCE_DESCRIPTIONS: Record<SourceKind, string> = {
+  media: "video transcription",
+  document: "document text",
+};
+
+// Accepts [first, last] only when both refer to known segments; cards with
+// a bad citation are kept, just without a source range.
+function parseSourceSegments(value: unknown, segments?: SegmentReference[]): [number, number] | undefined {
+  if (!segments?.length || !Array.isArray(value) || value.length === 0) return undefined;
+
+  const [first, last = first] = value.map(Number);
+  const positions = new Set(segments.map(segment => segment.position));
+  if (!positions.has(first) || !positions.has(last)) return undefined;
+
+  return first <= last ? [first, last] : [last, first];
+}
+
+function buildUserPrompt(transcription: string, options: GenerateFlashcardsOptions): string {
+  const content = options.segments?.length
+    ? options.segments.map(segment => `[${segment.position}] ${segment.text}`).join("\n")
+    : transcription;
+  let prompt = `Generate flashcards from this ${SOURCE_DESCRIPTIONS[options.sourceKind ?? "media"]}:\n\n${content}`;
+
+  if (options.instructions) {
+    prompt += `\n\nAdditional instructions from the learner:\n${options.instructions}`;
+  }
+
+  if (options.existingQuestions?.length) {
+    prompt += `\n\nThese questions already exist. Do not repeat them or ask the same thing in other words:\n${options.existingQuestions.map(q => `- ${q}`).join("\n")}`;
+  }
+
+  return prompt;
 }
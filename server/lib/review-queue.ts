@@ -0,0 +1,87 @@
+import type { DueCard, DueReviewsQuery } from "@shared/schema";
+
+export interface ReviewQueue {
+  cards: DueCard[];
+  counts: { review: number; new: number };
+  // What is left of today's limits once this queue has been studied.
+  remainingToday: { review: number; new: number };
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Midnight at the start of `now`'s day, in the learner's time zone.
+function startOfDay(now: Date, timezoneOffset: number): number {
+  const local = now.getTime() - timezoneOffset * MINUTE_MS;
+  return local - (local % DAY_MS) + timezoneOffset * MINUTE_MS;
+}
+
+// Missing timestamps sort before everything.
+function time(timestamp: string | null): number {
+  return timestamp ? new Date(timestamp).getTime() : -Infinity;
+}
+
+// Builds today's queue from every card a learner has: reviews that are due
+// (most overdue first when the limit cuts some off) and cards never seen,
+// each capped by what is left of the day's limit, then interleaved in the
+// requested order. Cards introduced or reviewed earlier today count toward
+// the limits. `random` is injectable so shuffles can be reproduced.
+export function buildReviewQueue(
+  cards: DueCard[],
+  options: DueReviewsQuery,
+  now: Date,
+  random: () => number = Math.random,
+): ReviewQueue {
+  const dayStart = startOfDay(now, options.timezoneOffset);
+  const introducedToday = cards.filter(card => card.state && time(card.state.introducedAt) >= dayStart).length;
+  const reviewedToday = cards.filter(card =>
+    card.state && time(card.state.lastReviewedAt) >= dayStart && time(card.state.introducedAt) < dayStart,
+  ).length;
+
+  const reviewLimit = Math.max(0, options.reviewLimit - reviewedToday);
+  const newLimit = Math.max(0, options.newLimit - introducedToday);
+
+  const dueReviews = cards
+    .filter(card => card.state && time(card.state.dueAt) <= now.getTime())
+    .sort((a, b) => a.state!.dueAt.localeCompare(b.state!.dueAt));
+  const newCards = cards
+    .filter(card => !card.state)
+    .sort((a, b) => a.source.id - b.source.id || a.flashcard.order - b.flashcard.order);
+
+  const reviews = dueReviews.slice(0, reviewLimit);
+  const introduced = newCards.slice(0, newLimit);
+
+  return {
+    cards: interleave([...reviews, ...introduced], options.order, random),
+    counts: { review: reviews.length, new: introduced.length },
+    remainingToday: { review: reviewLimit - reviews.length, new: newLimit - introduced.length },
+  };
+}
+
+// `cards` arrives oldest-due first, with new cards last.
+function interleave(cards: DueCard[], order: DueReviewsQuery["order"], random: () => number): DueCard[] {
+  switch (order) {
+    case "oldest":
+      return cards;
+
+    case "random": {
+      const shuffled = [...cards];
+      for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+      }
+      return shuffled;
+    }
+
+    case "deck": {
+      // Sources uploaded on their own form a group of one. Groups come in
+      // the order of their most overdue card.
+      const groups = new Map<string, DueCard[]>();
+      for (const card of cards) {
+        const key = card.source.deckId !== null ? `deck:${card.source.deckId}` : `source:${card.source.id}`;
+        groups.set(key, [...groups.get(key) ?? [], card]);
+      }
+      return Array.from(groups.values()).flat();
+    }
+  }
+}
@@ -0,0 +1,62 @@
+import type { ReviewGrade, ReviewLog, ReviewStatsQuery } from "@shared/schema";
+
+export interface ReviewStats {
+  totalReviews: number;
+  cardsReviewed: number;
+  byGrade: Record<ReviewGrade, number>;
+  // Share of reviews of already-learned cards that were not forgotten;
+  // null until there is such a review.
+  retention: number | null;
+  averageResponseTimeMs: number | null;
+  // One entry per day of the requested window, oldest first, in the
+  // learner's time zone.
+  daily: { date: string; reviews: number; forgotten: number }[];
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// The learner's calendar date of `time`, as YYYY-MM-DD.
+function localDate(time: number, timezoneOffset: number): string {
+  return new Date(time - timezoneOffset * MINUTE_MS).toISOString().slice(0, 10);
+}
+
+// Statistics over the last `query.days` days, computed from the review log
+// alone so they never disagree with the history of answers.
+export function summarizeReviewLogs(allLogs: ReviewLog[], query: ReviewStatsQuery, now: Date): ReviewStats {
+  const daily = Array.from({ length: query.days }, (_, i) => ({
+    date: localDate(now.getTime() - (query.days - 1 - i) * DAY_MS, query.timezoneOffset),
+    reviews: 0,
+    forgotten: 0,
+  }));
+  const dayIndex = new Map(daily.map((day, i) => [day.date, i]));
+
+  const logs: ReviewLog[] = [];
+  for (const log of allLogs) {
+    const i = dayIndex.get(localDate(new Date(log.reviewedAt).getTime(), query.timezoneOffset));
+    if (i === undefined) continue;
+    logs.push(log);
+    daily[i].reviews++;
+    if (log.grade === "again") daily[i].forgotten++;
+  }
+
+  const byGrade: Record<ReviewGrade, number> = { again: 0, hard: 0, good: 0, easy: 0 };
+  for (const log of logs) byGrade[log.grade]++;
+
+  // A card with no interval yet was still being learned, not recalled.
+  const recalls = logs.filter(log => log.previousIntervalDays > 0);
+  const timed = logs.filter(log => log.responseTimeMs !== null);
+
+  return {
+    totalReviews: logs.length,
+    cardsReviewed: new Set(logs.map(log => log.flashcardId)).size,
+    byGrade,
+    retention: recalls.length > 0
+      ? recalls.filter(log => log.grade !== "again").length / recalls.length
+      : null,
+    averageResponseTimeMs: timed.length > 0
+      ? Math.round(timed.reduce((total, log) => total + log.responseTimeMs!, 0) / timed.length)
+      : null,
+    daily,
+  };
+}
@@ -0,0 +1,153 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { ReviewGrade } from "@shared/schema";
+import { createScheduler, FSRSAlgorithm, Scheduler, SM2Algorithm, type Clock, type SchedulingState } from "./scheduler";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A clock that only moves when told to.
+class FakeClock implements Clock {
+  private time = new Date("2026-01-01T09:00:00Z").getTime();
+
+  now(): Date {
+    return new Date(this.time);
+  }
+
+  advanceDays(days: number) {
+    this.time += days * DAY_MS;
+  }
+}
+
+// Reviews a card once per grade, each time on the day it falls due.
+function reviewOnDueDates(scheduler: Scheduler, clock: FakeClock, grades: ReviewGrade[]): SchedulingState[] {
+  const states: SchedulingState[] = [];
+  let state: SchedulingState | undefined;
+  for (const grade of grades) {
+    state = scheduler.review(state, grade);
+    states.push(state);
+    clock.advanceDays(state.intervalDays);
+  }
+  return states;
+}
+
+describe("SM-2", () => {
+  test("schedules 1 day, 6 days, then the previous interval times the ease", () => {
+    const clock = new FakeClock();
+    const scheduler = new Scheduler(new SM2Algorithm(), clock);
+    const states = reviewOnDueDates(scheduler, clock, ["good", "good", "good", "good"]);
+
+    assert.deepEqual(states.map(state => state.intervalDays), [1, 6, 15, 38]);
+    assert.deepEqual(states.map(state => state.repetitions), [1, 2, 3, 4]);
+    assert.equal(states[0].ease, 2.5);
+  });
+
+  test("sets the due date from the clock", () => {
+    const clock = new FakeClock();
+    const scheduler = new Scheduler(new SM2Algorithm(), clock);
+    const state = scheduler.review(undefined, "good");
+
+    assert.equal(state.dueAt, new Date(clock.now().getTime() + DAY_MS).toISOString());
+    assert.equal(state.lastReviewedAt, clock.now().toISOString());
+    assert.equal(scheduler.isDue(state), false);
+    clock.advanceDays(1);
+    assert.equal(scheduler.isDue(state), true);
+  });
+
+  test("relearns a forgotten card in ten minutes and lowers its ease", () => {
+    const clock = new FakeClock();
+    const scheduler = new Scheduler(new SM2Algorithm(), clock);
+    const [, , forgotten] = reviewOnDueDates(scheduler, clock, ["good", "good", "again"]);
+
+    assert.equal(forgotten.intervalDays, 0);
+    assert.equal(forgotten.repetitions, 0);
+    assert.equal(forgotten.lapses, 1);
+    assert.equal(new Date(forgotten.dueAt).getTime() - new Date(forgotten.lastReviewedAt!).getTime(), 10 * 60 * 1000);
+    assert.ok(forgotten.ease < 2.5);
+  });
+
+  test("never lets ease fall below 1.3", () => {
+    const clock = new FakeClock();
+    const scheduler = new Scheduler(new SM2Algorithm(), clock);
+    const states = reviewOnDueDates(scheduler, clock, Array(10).fill("again"));
+
+    assert.equal(states[states.length - 1].ease, 1.3);
+  });
+});
+
+describe("FSRS", () => {
+  test("starts from the default stability for the first grade", () => {
+    const scheduler = new Scheduler(new FSRSAlgorithm(), new FakeClock());
+
+    // At 90% desired retention the interval equals the stability.
+    assert.equal(scheduler.review(undefined, "hard").intervalDays, 1);
+    assert.equal(scheduler.review(undefined, "good").intervalDays, 4);
+    assert.equal(scheduler.review(undefined, "easy").intervalDays, 14);
+  });
+
+  test("grows intervals with each successful review", () => {
+    const clock = new FakeClock();
+    const scheduler = new Scheduler(new FSRSAlgorithm(), clock);
+    const intervals = reviewOnDueDates(scheduler, clock, ["good", "good", "good", "good"]).map(state => state.intervalDays);
+
+    for (let i = 1; i < intervals.length; i++) {
+      assert.ok(intervals[i] > intervals[i - 1], `interval ${i} (${intervals[i]}) should exceed ${intervals[i - 1]}`);
+    }
+  });
+
+  test("schedules shorter intervals for a higher desired retention", () => {
+    const clock = new FakeClock();
+    const relaxed = reviewOnDueDates(new Scheduler(new FSRSAlgorithm(0.8), clock), clock, ["good", "good"]);
+    const strict = reviewOnDueDates(new Scheduler(new FSRSAlgorithm(0.95), clock), clock, ["good", "good"]);
+
+    assert.ok(strict[1].intervalDays < relaxed[1].intervalDays);
+  });
+
+  test("lowers stability and raises difficulty on a lapse", () => {
+    const clock = new FakeClock();
+    const scheduler = new Scheduler(new FSRSAlgorithm(), clock);
+    const [, remembered, forgotten] = reviewOnDueDates(scheduler, clock, ["good", "good", "again"]);
+
+    assert.ok(forgotten.stability! < remembered.stability!);
+    assert.ok(forgotten.difficulty! > remembered.difficulty!);
+    assert.equal(forgotten.lapses, 1);
+    assert.equal(new Date(forgotten.dueAt).getTime() - new Date(forgotten.lastReviewedAt!).getTime(), 10 * 60 * 1000);
+  });
+
+  test("caps intervals at 100 years", () => {
+    const clock = new FakeClock();
+    const scheduler = new Scheduler(new FSRSAlgorithm(0.7), clock);
+    const states = reviewOnDueDates(scheduler, clock, Array(12).fill("easy"));
+
+    assert.equal(states[states.length - 1].intervalDays, 36500);
+  });
+});
+
+describe("Scheduler.replay", () => {
+  test("rebuilds the state the reviews produced", () => {
+    const clock = new FakeClock();
+    const scheduler = new Scheduler(new FSRSAlgorithm(), clock);
+    const logs: { grade: ReviewGrade; reviewedAt: string }[] = [];
+    let state: SchedulingState | undefined;
+    for (const grade of ["good", "hard", "again", "good"] as ReviewGrade[]) {
+      logs.push({ grade, reviewedAt: clock.now().toISOString() });
+      state = scheduler.review(state, grade);
+      clock.advanceDays(Math.max(state.intervalDays, 1));
+    }
+
+    assert.deepEqual(scheduler.replay(logs), state);
+    assert.equal(scheduler.replay([]), undefined);
+  });
+});
+
+describe("createScheduler", () => {
+  test("picks the algorithm from the environment", () => {
+    assert.equal(createScheduler({}).algorithm.name, "fsrs");
+    assert.equal(createScheduler({ SCHEDULER_ALGORITHM: "sm2" }).algorithm.name, "sm2");
+  });
+
+  test("rejects unknown algorithms and out-of-range retention", () => {
+    assert.throws(() => createScheduler({ SCHEDULER_ALGORITHM: "leitner" }), /Unknown SCHEDULER_ALGORITHM/);
+    assert.throws(() => createScheduler({ FSRS_DESIRED_RETENTION: "0.99" }), /FSRS_DESIRED_RETENTION/);
+    assert.throws(() => createScheduler({ FSRS_DESIRED_RETENTION: "high" }), /FSRS_DESIRED_RETENTION/);
+  });
+});
@@ -0,0 +1,240 @@
+import type { CardReviewState, ReviewGrade, ReviewLog, SchedulerAlgorithm } from "@shared/schema";
+
+// The scheduling fields of a card's review state; who and which card it
+// belongs to is up to the caller.
+export type SchedulingState = Pick<
+  CardReviewState,
+  "ease" | "intervalDays" | "repetitions" | "stability" | "difficulty" | "lapses" | "lastGrade" | "dueAt" | "lastReviewedAt"
+>;
+
+export interface Clock {
+  now(): Date;
+}
+
+export const systemClock: Clock = { now: () => new Date() };
+
+export interface SchedulingAlgorithm {
+  readonly name: SchedulerAlgorithm;
+  // Applies one review at `now` and returns the new state, including when
+  // the card is next due.
+  review(state: SchedulingState, grade: ReviewGrade, now: Date): SchedulingState;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_INTERVAL_DAYS = 36500;
+// A forgotten card comes back later in the same sitting rather than tomorrow.
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+
+// State for a card that has never been reviewed: due straight away.
+export function newSchedulingState(now: Date): SchedulingState {
+  return {
+    ease: 2.5,
+    intervalDays: 0,
+    repetitions: 0,
+    stability: null,
+    difficulty: null,
+    lapses: 0,
+    lastGrade: null,
+    dueAt: now.toISOString(),
+    lastReviewedAt: null,
+  };
+}
+
+function addDays(now: Date, days: number): string {
+  return new Date(now.getTime() + days * DAY_MS).toISOString();
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+// SuperMemo 2, with the four grades mapped onto its 0-5 quality scale.
+export class SM2Algorithm implements SchedulingAlgorithm {
+  readonly name = "sm2";
+
+  private static readonly QUALITY: Record<ReviewGrade, number> = { again: 1, hard: 3, good: 4, easy: 5 };
+
+  review(state: SchedulingState, grade: ReviewGrade, now: Date): SchedulingState {
+    const quality = SM2Algorithm.QUALITY[grade];
+    const ease = Math.max(1.3, state.ease + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+    const reviewed = { ...state, ease, lastGrade: grade, lastReviewedAt: now.toISOString() };
+
+    if (grade === "again") {
+      return {
+        ...reviewed,
+        repetitions: 0,
+        intervalDays: 0,
+        lapses: state.lapses + 1,
+        dueAt: new Date(now.getTime() + RELEARN_DELAY_MS).toISOString(),
+      };
+    }
+
+    const repetitions = state.repetitions + 1;
+    const intervalDays = repetitions === 1 ? 1
+      : repetitions === 2 ? 6
+      : Math.min(MAX_INTERVAL_DAYS, Math.round(Math.max(state.intervalDays, 1) * ease));
+
+    return { ...reviewed, repetitions, intervalDays, dueAt: addDays(now, intervalDays) };
+  }
+}
+
+// FSRS-4.5 default weights, fitted by the FSRS authors on Anki review data.
+const FSRS_DEFAULT_WEIGHTS = [
+  0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474,
+  0.1367, 1.0461, 2.1072, 0.0793, 0.3246, 1.587, 0.2272, 2.8755,
+];
+const FSRS_DECAY = -0.5;
+const FSRS_FACTOR = 19 / 81;
+
+// Free Spaced Repetition Scheduler (v4.5): models each card's memory
+// stability (days until recall probability falls to 90%) and difficulty
+// (1-10), and schedules the next review for the desired retention.
+export class FSRSAlgorithm implements SchedulingAlgorithm {
+  readonly name = "fsrs";
+
+  constructor(
+    private desiredRetention = 0.9,
+    private w: number[] = FSRS_DEFAULT_WEIGHTS,
+  ) {}
+
+  review(state: SchedulingState, grade: ReviewGrade, now: Date): SchedulingState {
+    const rating = ["again", "hard", "good", "easy"].indexOf(grade) + 1;
+    let stability: number;
+    let difficulty: number;
+
+    if (state.stability === null || state.difficulty === null || !state.lastReviewedAt) {
+      stability = this.w[rating - 1];
+      difficulty = this.initialDifficulty(rating);
+    } else {
+      const elapsedDays = Math.max(0, (now.getTime() - new Date(state.lastReviewedAt).getTime()) / DAY_MS);
+      const retrievability = Math.pow(1 + FSRS_FACTOR * elapsedDays / state.stability, FSRS_DECAY);
+      difficulty = this.nextDifficulty(state.difficulty, rating);
+      stability = rating === 1
+        ? this.forgetStability(state.difficulty, state.stability, retrievability)
+        : this.recallStability(state.difficulty, state.stability, retrievability, rating);
+    }
+
+    const reviewed = {
+      ...state,
+      stability,
+      difficulty,
+      lastGrade: grade,
+      lastReviewedAt: now.toISOString(),
+    };
+
+    if (grade === "again") {
+      return {
+        ...reviewed,
+        repetitions: 0,
+        intervalDays: 0,
+        lapses: state.lapses + 1,
+        dueAt: new Date(now.getTime() + RELEARN_DELAY_MS).toISOString(),
+      };
+    }
+
+    const intervalDays = this.nextInterval(stability);
+    return { ...reviewed, repetitions: state.repetitions + 1, intervalDays, dueAt: addDays(now, intervalDays) };
+  }
+
+  private nextInterval(stability: number): number {
+    const interval = (stability / FSRS_FACTOR) * (Math.pow(this.desiredRetention, 1 / FSRS_DECAY) - 1);
+    return clamp(Math.round(interval), 1, MAX_INTERVAL_DAYS);
+  }
+
+  private initialDifficulty(rating: number): number {
+    return clamp(this.w[4] - (rating - 3) * this.w[5], 1, 10);
+  }
+
+  // Harder grades raise difficulty; it drifts back toward the default over time.
+  private nextDifficulty(difficulty: number, rating: number): number {
+    const next = difficulty - this.w[6] * (rating - 3);
+    return clamp(this.w[7] * this.initialDifficulty(3) + (1 - this.w[7]) * next, 1, 10);
+  }
+
+  private recallStability(difficulty: number, stability: number, retrievability: number, rating: number): number {
+    const hardPenalty = rating === 2 ? this.w[15] : 1;
+    const easyBonus = rating === 4 ? this.w[16] : 1;
+    return stability * (
+      Math.exp(this.w[8]) *
+      (11 - difficulty) *
+      Math.pow(stability, -this.w[9]) *
+      (Math.exp(this.w[10] * (1 - retrievability)) - 1) *
+      hardPenalty *
+      easyBonus +
+      1
+    );
+  }
+
+  private forgetStability(difficulty: number, stability: number, retrievability: number): number {
+    return Math.min(
+      stability,
+      this.w[11] *
+        Math.pow(difficulty, -this.w[12]) *
+        (Math.pow(stability + 1, this.w[13]) - 1) *
+        Math.exp(this.w[14] * (1 - retrievability)),
+    );
+  }
+}
+
+// Applies reviews with a configured algorithm and clock; tests pass a fake
+// clock to control time.
+export class Scheduler {
+  constructor(
+    readonly algorithm: SchedulingAlgorithm,
+    private clock: Clock = systemClock,
+  ) {}
+
+  now(): Date {
+    return this.clock.now();
+  }
+
+  // `state` may be a stored row; only its scheduling fields are carried over.
+  review(state: SchedulingState | undefined, grade: ReviewGrade): SchedulingState {
+    const now = this.clock.now();
+    const { ease, intervalDays, repetitions, stability, difficulty, lapses, lastGrade, dueAt, lastReviewedAt } = state ?? newSchedulingState(now);
+    return this.algorithm.review(
+      { ease, intervalDays, repetitions, stability, difficulty, lapses, lastGrade, dueAt, lastReviewedAt },
+      grade,
+      now,
+    );
+  }
+
+  // Recovers a card's state by replaying its review log, oldest first, at
+  // the times the reviews happened. Undefined when there is nothing to replay.
+  replay(logs: Pick<ReviewLog, "grade" | "reviewedAt">[]): SchedulingState | undefined {
+    let state: SchedulingState | undefined;
+    for (const log of logs) {
+      const reviewedAt = new Date(log.reviewedAt);
+      state = this.algorithm.review(state ?? newSchedulingState(reviewedAt), log.grade, reviewedAt);
+    }
+    return state;
+  }
+
+  isDue(state: Pick<SchedulingState, "dueAt">): boolean {
+    return new Date(state.dueAt).getTime() <= this.clock.now().getTime();
+  }
+}
+
+// SCHEDULER_ALGORITHM picks the algorithm: "fsrs" (default) or "sm2".
+// FSRS_DESIRED_RETENTION (0.7-0.97) trades review load for recall.
+export function createScheduler(env: NodeJS.ProcessEnv = process.env, clock: Clock = systemClock): Scheduler {
+  const algorithm = env.SCHEDULER_ALGORITHM || "fsrs";
+
+  switch (algorithm) {
+    case "fsrs": {
+      const retention = env.FSRS_DESIRED_RETENTION ? Number(env.FSRS_DESIRED_RETENTION) : 0.9;
+      if (Number.isNaN(retention) || retention < 0.7 || retention > 0.97) {
+        throw new Error("FSRS_DESIRED_RETENTION must be a number between 0.7 and 0.97");
+      }
+      return new Scheduler(new FSRSAlgorithm(retention), clock);
+    }
+
+    case "sm2":
+      return new Scheduler(new SM2Algorithm(), clock);
+
+    default:
+      throw new Error(`Unknown SCHEDULER_ALGORITHM: ${algorithm}`);
+  }
+}
+
+export const scheduler = createScheduler();
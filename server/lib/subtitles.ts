@@ -0,0 +1,93 @@
+import type { TranscriptSegment, TranscriptionResult } from "./transcription";
+
+export type SubtitleFormat = "srt" | "vtt";
+
+export const SUBTITLE_EXTENSIONS = [".srt", ".vtt"];
+
+// Matches "00:01:02,345 --> 00:01:04,000" (SRT) and "01:02.345 --> 01:04.000"
+// (WebVTT, where hours are optional), ignoring any cue settings after it.
+const TIMING_LINE = /^((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s+-->\s+((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+
+export class SubtitleParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SubtitleParseError";
+  }
+}
+
+export function detectSubtitleFormat(filename: string, content: string): SubtitleFormat {
+  if (content.replace(/^\uFEFF/, "").startsWith("WEBVTT") || filename.toLowerCase().endsWith(".vtt")) {
+    return "vtt";
+  }
+  return "srt";
+}
+
+function parseTimestamp(value: string): number {
+  const [clock, fraction = "0"] = value.replace(",", ".").split(".");
+  const parts = clock.split(":").map(Number);
+  const seconds = parts.reduce((total, part) => total * 60 + part, 0);
+  return seconds + Number(`0.${fraction}`);
+}
+
+// Removes formatting tags (<i>, <c.color>, timestamps inside karaoke cues) and
+// SSA override blocks like {\an8}; a WebVTT <v Name> tag becomes the speaker.
+function cleanCueText(lines: string[]): { text: string; speaker?: string } {
+  const raw = lines.join(" ");
+  const speaker = raw.match(/<v(?:\.[^\s>]+)*\s+([^>]+)>/)?.[1]?.trim();
+  const text = raw
+    .replace(/<[^>]*>/g, "")
+    .replace(/\{\\[^}]*\}/g, "")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&nbsp;/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+  return { text, speaker };
+}
+
+// Parses SRT or WebVTT captions into transcript segments. Auto-generated
+// captions often repeat the previous line while the next one scrolls in, so
+// a cue identical to the one before it only extends that cue's end time.
+export function parseSubtitles(content: string, format: SubtitleFormat): TranscriptionResult {
+  const blocks = content
+    .replace(/^\uFEFF/, "")
+    .replace(/\r\n?/g, "\n")
+    .split(/\n{2,}/);
+
+  const segments: TranscriptSegment[] = [];
+  for (const block of blocks) {
+    const lines = block.split("\n").filter(line => line.trim() !== "");
+    const timingIndex = lines.findIndex(line => TIMING_LINE.test(line.trim()));
+    // Headers, NOTE/STYLE/REGION blocks and stray cue numbers have no timing line.
+    if (timingIndex === -1) continue;
+
+    const [, start, end] = lines[timingIndex].trim().match(TIMING_LINE)!;
+    const { text, speaker } = cleanCueText(lines.slice(timingIndex + 1));
+    if (!text) continue;
+
+    const previous = segments[segments.length - 1];
+    if (previous && previous.text === text) {
+      previous.end = Math.max(previous.end, parseTimestamp(end));
+      continue;
+    }
+
+    segments.push({
+      start: parseTimestamp(start),
+      end: parseTimestamp(end),
+      text,
+      ...(speaker ? { speaker } : {}),
+    });
+  }
+
+  if (segments.length === 0) {
+    throw new SubtitleParseError(`No captions were found in the ${format.toUpperCase()} file`);
+  }
+
+  segments.sort((a, b) => a.start - b.start);
+  return {
+    text: segments.map(segment => segment.text).join(" "),
+    durationSeconds: segments[segments.length - 1].end,
+    segments,
+  };
+}
@@ -0,0 +1,28 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { assessTranscript } from "./transcript-quality";
+
+const LECTURE = "Photosynthesis is the process plants use to turn light into chemical energy. " +
+  "It happens in the chloroplasts, because they contain chlorophyll. For example, a leaf " +
+  "absorbs red and blue light, which means it reflects green. The first step splits water.";
+
+function issueCodes(input: Parameters<typeof assessTranscript>[0]) {
+  return assessTranscript(input).issues.map(issue => issue.code);
+}
+
+describe("assessTranscript language check", () => {
+  test("flags a detected language other than the expected one", () => {
+    assert.deepEqual(issueCodes({ text: LECTURE, language: "spanish", expectedLanguage: "en" }), ["wrong_language"]);
+    assert.deepEqual(issueCodes({ text: LECTURE, language: "de", expectedLanguage: "en" }), ["wrong_language"]);
+  });
+
+  test("matches codes against the names Whisper reports", () => {
+    assert.deepEqual(issueCodes({ text: LECTURE, language: "english", expectedLanguage: "en" }), []);
+    assert.deepEqual(issueCodes({ text: LECTURE, language: "en", expectedLanguage: "en" }), []);
+  });
+
+  test("skips the check without both languages", () => {
+    assert.deepEqual(issueCodes({ text: LECTURE, language: "spanish" }), []);
+    assert.deepEqual(issueCodes({ text: LECTURE, language: null, expectedLanguage: "en" }), []);
+  });
+});
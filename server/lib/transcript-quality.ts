@@ -0,0 +1,159 @@
+import type { SourceKind, TranscriptAssessment, TranscriptIssue } from "@shared/schema";
+
+export interface AssessTranscriptInput {
+  text: string;
+  // Whisper segments carry confidence; captions and documents have none.
+  segments?: { text: string; avgLogprob?: number | null; noSpeechProb?: number | null }[];
+  // Language the provider detected, as an ISO-639-1 code or English name.
+  language?: string | null;
+  // Language the media is expected to be in, from the upload's options or
+  // TRANSCRIPTION_LANGUAGE.
+  expectedLanguage?: string;
+  sourceKind?: SourceKind;
+}
+
+const MIN_CHARACTERS = 100;
+const MIN_WORDS = 20;
+// Whisper's own defaults for discarding a segment as silence or as a guess.
+const NO_SPEECH_THRESHOLD = 0.6;
+const LOW_LOGPROB_THRESHOLD = -1.0;
+// Above this share of no-speech segments the media is mostly music or silence.
+const MAX_NO_SPEECH_RATIO = 0.5;
+// Share of the text in captions like "[Music]" or "♪" above which there is
+// too little speech to learn from.
+const MAX_ANNOTATION_RATIO = 0.5;
+const MIN_EDUCATIONAL_SCORE = 0.45;
+
+// Words and phrases that show up when something is being explained.
+const EXPLANATORY_CUES = /\b(because|therefore|thus|so that|means?|meaning|called|known as|refers? to|defined?|definition|for example|for instance|such as|e\.g\.|in other words|consists? of|made up of|causes?|results? in|leads? to|process|first|second|third|finally|step|compared? to|whereas|however|important|key|why|how)\b/gi;
+
+// Checks a transcript before cards are generated from it: too short, mostly
+// music or silence, the wrong language, low recognition confidence, or not
+// explanatory enough to study from. Every failed check is reported so the
+// user can judge whether to override.
+export function assessTranscript(input: AssessTranscriptInput): TranscriptAssessment {
+  const text = input.text.trim();
+  const words = text
+    .split(/\s+/)
+    .map(token => token.replace(/^[^A-Za-z0-9\u00C0-\uFFFF]+|[^A-Za-z0-9\u00C0-\uFFFF]+$/g, ""))
+    .filter(word => /[A-Za-z\u00C0-\uFFFF]/.test(word));
+  const segments = input.sourceKind === "document" ? [] : input.segments ?? [];
+  const issues: TranscriptIssue[] = [];
+
+  if (text.length < MIN_CHARACTERS || words.length < MIN_WORDS) {
+    issues.push({
+      code: "too_short",
+      message: `The transcript has only ${words.length} words, too few to make flashcards from.`,
+    });
+  }
+
+  const noSpeechRatio = ratio(segments.filter(segment => segment.noSpeechProb != null), segment => segment.noSpeechProb! > NO_SPEECH_THRESHOLD);
+  const annotationRatio = text.length > 0 ? annotationLength(text) / text.length : 0;
+  if ((noSpeechRatio ?? 0) > MAX_NO_SPEECH_RATIO || annotationRatio > MAX_ANNOTATION_RATIO) {
+    issues.push({
+      code: "no_speech",
+      message: "Most of the audio appears to be music, noise or silence rather than speech.",
+    });
+  }
+
+  const language = input.language || null;
+  if (language && input.expectedLanguage && !sameLanguage(language, input.expectedLanguage)) {
+    issues.push({
+      code: "wrong_language",
+      message: `The audio was detected as ${languageName(language)}, but ${languageName(input.expectedLanguage)} was expected.`,
+    });
+  }
+
+  const averageLogprob = weightedMean(segments.filter(segment => segment.avgLogprob != null), segment => segment.avgLogprob!, segment => segment.text.length);
+  if (averageLogprob !== null && averageLogprob < LOW_LOGPROB_THRESHOLD) {
+    issues.push({
+      code: "low_confidence",
+      message: "The speech recognizer had low confidence in this transcript, so it is likely to contain errors.",
+    });
+  }
+
+  const educationalScore = scoreEducational(text, words);
+  if (issues.length === 0 && educationalScore < MIN_EDUCATIONAL_SCORE) {
+    issues.push({
+      code: "not_educational",
+      message: "The transcript doesn't read like explanatory material, so flashcards from it would likely be weak.",
+    });
+  }
+
+  return {
+    passed: issues.length === 0,
+    issues,
+    educationalScore,
+    language,
+    averageLogprob,
+    noSpeechRatio,
+  };
+}
+
+// Blends three signals, each scaled to 0-1: how often explanatory phrasing
+// appears, how varied the vocabulary is (song lyrics and chants repeat
+// themselves), and whether the text forms sentences of a normal length.
+function scoreEducational(text: string, words: string[]): number {
+  if (words.length === 0) return 0;
+
+  const cuesPerHundredWords = ((text.match(EXPLANATORY_CUES) ?? []).length / words.length) * 100;
+  const cueScore = clamp(cuesPerHundredWords / 3);
+
+  const diversityScore = clamp((movingTypeTokenRatio(words) - 0.35) / 0.25);
+
+  const sentences = text.split(/[.!?]+/).filter(sentence => sentence.trim().length > 0);
+  const wordsPerSentence = words.length / Math.max(1, sentences.length);
+  const sentenceScore = wordsPerSentence > 40 ? 0.5 : clamp((wordsPerSentence - 3) / 5);
+
+  return Math.round((0.4 * cueScore + 0.4 * diversityScore + 0.2 * sentenceScore) * 100) / 100;
+}
+
+// Type-token ratio averaged over 100-word windows, so long texts aren't
+// penalized just for reusing common words.
+function movingTypeTokenRatio(words: string[], window = 100): number {
+  const lower = words.map(word => word.toLowerCase());
+  if (lower.length <= window) return new Set(lower).size / lower.length;
+
+  let total = 0;
+  let windows = 0;
+  for (let start = 0; start + window <= lower.length; start += window / 2) {
+    total += new Set(lower.slice(start, start + window)).size / window;
+    windows++;
+  }
+  return total / windows;
+}
+
+// Characters inside caption annotations like "[Music]", "(applause)" or "♪ ... ♪".
+function annotationLength(text: string): number {
+  return (text.match(/\[[^\]]*\]|\([^)]*\)|[♪♫]+[^♪♫]*[♪♫]+|[♪♫]/g) ?? [])
+    .reduce((total, match) => total + match.length, 0);
+}
+
+// Whisper reports "english" from the API and "en" from most local builds.
+function sameLanguage(a: string, b: string): boolean {
+  return languageName(a).toLowerCase() === languageName(b).toLowerCase();
+}
+
+function languageName(language: string): string {
+  if (language.length > 3) return language.charAt(0).toUpperCase() + language.slice(1);
+  try {
+    return new Intl.DisplayNames(["en"], { type: "language" }).of(language) ?? language;
+  } catch {
+    return language;
+  }
+}
+
+function ratio<T>(items: T[], predicate: (item: T) => boolean): number | null {
+  if (items.length === 0) return null;
+  return items.filter(predicate).length / items.length;
+}
+
+function weightedMean<T>(items: T[], value: (item: T) => number, weight: (item: T) => number): number | null {
+  const totalWeight = items.reduce((total, item) => total + weight(item), 0);
+  if (totalWeight === 0) return null;
+  return items.reduce((total, item) => total + value(item) * weight(item), 0) / totalWeight;
+}
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
@@ -0,0 +1,36 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { stitchTranscripts } from "./transcription";
+
+describe("stitchTranscripts", () => {
+  test("shifts each chunk's segments onto the whole recording's timeline", () => {
+    const stitched = stitchTranscripts([
+      { text: " Cells divide. ", language: "english", segments: [{ start: 0, end: 4, text: "Cells divide." }] },
+      { text: "Mitosis has four phases.", segments: [
+        { start: 0.5, end: 3, text: "Mitosis has", avgLogprob: -0.2 },
+        { start: 3, end: 6, text: "four phases." },
+      ] },
+    ], [0, 551.5], 1200);
+
+    assert.deepEqual(stitched.segments, [
+      { start: 0, end: 4, text: "Cells divide." },
+      { start: 552, end: 554.5, text: "Mitosis has", avgLogprob: -0.2 },
+      { start: 554.5, end: 557.5, text: "four phases." },
+    ]);
+    assert.equal(stitched.text, "Cells divide. Mitosis has four phases.");
+    assert.equal(stitched.language, "english");
+    assert.equal(stitched.durationSeconds, 1200);
+  });
+
+  test("skips chunks that were silent", () => {
+    const stitched = stitchTranscripts([
+      { text: "Intro.", segments: [{ start: 1, end: 2, text: "Intro." }] },
+      { text: "   ", language: "en" },
+      { text: "Outro.", segments: [{ start: 0, end: 1, text: "Outro." }] },
+    ], [0, 600, 1200]);
+
+    assert.equal(stitched.text, "Intro. Outro.");
+    assert.equal(stitched.language, "en");
+    assert.deepEqual(stitched.segments?.map(segment => segment.start), [1, 1200]);
+  });
+});
@@ -0,0 +1,336 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { execFile } from "child_process";
+import { promisify } from "util";
+import OpenAI from "openai";
+import {
+  AUDIO_EXTENSIONS,
+  cutChunk,
+  detectSilences,
+  extractAudio,
+  maxSecondsForBytes,
+  planChunks,
+  probeDuration,
+  type AudioFormat,
+} from "./audio";
+import { mapWithConcurrency } from "./concurrency";
+
+const execFileAsync = promisify(execFile);
+
+// Times are in seconds from the start of the media.
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  text: string;
+  speaker?: string;
+  avgLogprob?: number;
+  noSpeechProb?: number;
+}
+
+export interface TranscriptionResult {
+  text: string;
+  language?: string;
+  durationSeconds?: number;
+  segments?: TranscriptSegment[];
+}
+
+export interface TranscribeOptions {
+  // ISO-639-1 code; providers auto-detect when omitted.
+  language?: string;
+}
+
+export interface TranscriptionProvider {
+  readonly name: string;
+  // Format media is converted to before transcription, or null to pass the file as-is.
+  readonly audioFormat: AudioFormat | null;
+  // Largest file the provider accepts; longer audio is split into chunks below it.
+  readonly maxFileBytes?: number;
+  transcribe(filePath: string, options?: TranscribeOptions): Promise<TranscriptionResult>;
+}
+
+// Hosted Whisper through the OpenAI API.
+export class OpenAIWhisperProvider implements TranscriptionProvider {
+  readonly name = "openai";
+  readonly audioFormat = "mp3";
+  readonly maxFileBytes = 25 * 1024 * 1024;
+
+  constructor(private client: OpenAI, private model = "whisper-1") {}
+
+  async transcribe(filePath: string, options: TranscribeOptions = {}): Promise<TranscriptionResult> {
+    const transcription = await this.client.audio.transcriptions.create({
+      file: fs.createReadStream(filePath),
+      model: this.model,
+      language: options.language,
+      response_format: "verbose_json",
+      timestamp_granularities: ["segment"],
+    });
+    return {
+      text: transcription.text,
+      language: transcription.language || options.language,
+      durationSeconds: transcription.duration,
+      segments: transcription.segments?.map(segment => ({
+        start: segment.start,
+        end: segment.end,
+        text: segment.text.trim(),
+        avgLogprob: segment.avg_logprob,
+        noSpeechProb: segment.no_speech_prob,
+      })),
+    };
+  }
+}
+
+export type LocalWhisperFlavor = "whisper.cpp" | "faster-whisper";
+
+// What `whisper-cli -oj` writes; offsets are in milliseconds.
+interface WhisperCppOutput {
+  result?: { language?: string };
+  transcription?: { offsets: { from: number; to: number }; text: string }[];
+}
+
+// What faster-whisper's `--output_format json` writes: the same shape as the
+// OpenAI API's verbose_json.
+interface VerboseJsonOutput {
+  text?: string;
+  language?: string;
+  segments?: { start: number; end: number; text: string; avg_logprob?: number; no_speech_prob?: number }[];
+}
+
+export interface LocalWhisperOptions {
+  flavor: LocalWhisperFlavor;
+  // Path to the CLI binary, e.g. whisper-cli (whisper.cpp) or whisper-ctranslate2.
+  binaryPath: string;
+  // whisper.cpp: path to a ggml model file. faster-whisper: a model name such as "small".
+  model: string;
+  timeoutMs?: number;
+}
+
+// Runs a local whisper.cpp or faster-whisper CLI and reads its JSON output,
+// so transcription works offline without an API key.
+export class LocalWhisperProvider implements TranscriptionProvider {
+  readonly name = "local";
+  readonly audioFormat: AudioFormat;
+
+  constructor(private options: LocalWhisperOptions) {
+    // whisper.cpp only reads 16 kHz WAV reliably.
+    this.audioFormat = options.flavor === "whisper.cpp" ? "wav" : "mp3";
+  }
+
+  async transcribe(filePath: string, options: TranscribeOptions = {}): Promise<TranscriptionResult> {
+    const outputDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "whisper-"));
+    try {
+      const outputFile = this.options.flavor === "whisper.cpp"
+        ? await this.runWhisperCpp(filePath, outputDir, options)
+        : await this.runFasterWhisper(filePath, outputDir, options);
+
+      const output = JSON.parse(await fs.promises.readFile(outputFile, "utf8"));
+      return this.options.flavor === "whisper.cpp"
+        ? this.parseWhisperCppOutput(output as WhisperCppOutput, options)
+        : this.parseVerboseJson(output as VerboseJsonOutput, options);
+    } finally {
+      await fs.promises.rm(outputDir, { recursive: true, force: true });
+    }
+  }
+
+  private async runWhisperCpp(filePath: string, outputDir: string, options: TranscribeOptions): Promise<string> {
+    const outputPrefix = path.join(outputDir, "transcript");
+    await execFileAsync(this.options.binaryPath, [
+      "-m", this.options.model,
+      "-f", filePath,
+      "-l", options.language ?? "auto",
+      "-oj",
+      "-of", outputPrefix,
+    ], { timeout: this.options.timeoutMs, maxBuffer: 64 * 1024 * 1024 });
+    return `${outputPrefix}.json`;
+  }
+
+  private async runFasterWhisper(filePath: string, outputDir: string, options: TranscribeOptions): Promise<string> {
+    await execFileAsync(this.options.binaryPath, [
+      filePath,
+      "--model", this.options.model,
+      ...(options.language ? ["--language", options.language] : []),
+      "--output_format", "json",
+      "--output_dir", outputDir,
+    ], { timeout: this.options.timeoutMs, maxBuffer: 64 * 1024 * 1024 });
+    return path.join(outputDir, `${path.parse(filePath).name}.json`);
+  }
+
+  private parseWhisperCppOutput(output: WhisperCppOutput, options: TranscribeOptions): TranscriptionResult {
+    const segments: TranscriptSegment[] = (output.transcription ?? [])
+      .map(entry => ({
+        start: entry.offsets.from / 1000,
+        end: entry.offsets.to / 1000,
+        text: String(entry.text).trim(),
+      }))
+      .filter(segment => segment.text);
+    return {
+      text: segments.map(segment => segment.text).join(" "),
+      language: output.result?.language ?? options.language,
+      segments,
+    };
+  }
+
+  private parseVerboseJson(output: VerboseJsonOutput, options: TranscribeOptions): TranscriptionResult {
+    return {
+      text: String(output.text ?? "").trim(),
+      language: output.language ?? options.language,
+      segments: (output.segments ?? []).map(segment => ({
+        start: segment.start,
+        end: segment.end,
+        text: String(segment.text).trim(),
+        avgLogprob: segment.avg_logprob,
+        noSpeechProb: segment.no_speech_prob,
+      })),
+    };
+  }
+}
+
+const DEFAULT_FIXTURE_TRANSCRIPT =
+  "Welcome to this introduction to photosynthesis. Photosynthesis is the process plants use to convert light energy " +
+  "into chemical energy. It takes place in the chloroplasts, which contain a green pigment called chlorophyll. " +
+  "The light-dependent reactions happen in the thylakoid membranes and produce ATP and NADPH. The Calvin cycle then " +
+  "uses that energy in the stroma to fix carbon dioxide into glucose. An important example to remember is that " +
+  "oxygen is released as a by-product when water molecules are split during the light-dependent reactions.";
+
+// Returns the same transcript for every file, for tests and offline development.
+// Each sentence becomes a five-second segment so timestamps are predictable.
+export class FixtureTranscriptionProvider implements TranscriptionProvider {
+  readonly name = "fixture";
+  readonly audioFormat = null;
+
+  constructor(private transcript: string = DEFAULT_FIXTURE_TRANSCRIPT) {}
+
+  static fromFile(fixturePath: string): FixtureTranscriptionProvider {
+    return new FixtureTranscriptionProvider(fs.readFileSync(fixturePath, "utf8"));
+  }
+
+  async transcribe(_filePath: string, options: TranscribeOptions = {}): Promise<TranscriptionResult> {
+    const sentences = this.transcript.match(/[^.!?]+[.!?]*/g)?.map(sentence => sentence.trim()).filter(Boolean) ?? [];
+    const segments = sentences.map((text, i) => ({ start: i * 5, end: (i + 1) * 5, text }));
+    return {
+      text: this.transcript,
+      language: options.language ?? "en",
+      durationSeconds: segments.length * 5,
+      segments,
+    };
+  }
+}
+
+// TRANSCRIPTION_PROVIDER picks the implementation: "openai" (default),
+// "local" (whisper.cpp / faster-whisper CLI) or "fixture".
+export function createTranscriptionProvider(env: NodeJS.ProcessEnv = process.env): TranscriptionProvider {
+  const provider = env.TRANSCRIPTION_PROVIDER || "openai";
+
+  switch (provider) {
+    case "openai":
+      return new OpenAIWhisperProvider(
+        new OpenAI({ apiKey: env.OPEN_API_VIDTUT || "default_key" }),
+        env.WHISPER_MODEL || "whisper-1",
+      );
+
+    case "local": {
+      const flavor = (env.LOCAL_WHISPER_FLAVOR || "whisper.cpp") as LocalWhisperFlavor;
+      if (flavor !== "whisper.cpp" && flavor !== "faster-whisper") {
+        throw new Error(`Unknown LOCAL_WHISPER_FLAVOR: ${flavor}`);
+      }
+      if (flavor === "whisper.cpp" && !env.LOCAL_WHISPER_MODEL) {
+        throw new Error("LOCAL_WHISPER_MODEL must point at a ggml model file for whisper.cpp");
+      }
+      return new LocalWhisperProvider({
+        flavor,
+        binaryPath: env.LOCAL_WHISPER_BIN || (flavor === "whisper.cpp" ? "whisper-cli" : "whisper-ctranslate2"),
+        model: env.LOCAL_WHISPER_MODEL || "small",
+        timeoutMs: env.LOCAL_WHISPER_TIMEOUT_MS ? Number(env.LOCAL_WHISPER_TIMEOUT_MS) : undefined,
+      });
+    }
+
+    case "fixture":
+      return env.TRANSCRIPTION_FIXTURE_PATH
+        ? FixtureTranscriptionProvider.fromFile(env.TRANSCRIPTION_FIXTURE_PATH)
+        : new FixtureTranscriptionProvider();
+
+    default:
+      throw new Error(`Unknown TRANSCRIPTION_PROVIDER: ${provider}`);
+  }
+}
+
+export const transcriptionProvider = createTranscriptionProvider();
+
+export interface TranscribeMediaOptions extends TranscribeOptions {
+  // Upper bound on chunk length, which also sets how much work runs in parallel.
+  maxChunkSeconds?: number;
+  concurrency?: number;
+  // Called as each chunk finishes, in completion order, so callers can show
+  // text before the whole file is done.
+  onChunk?: (result: TranscriptionResult, done: number, total: number) => void;
+}
+
+// Converts any audio/video file to the provider's preferred format, splits it
+// at silences into chunks the provider accepts, transcribes the chunks with
+// bounded parallelism and stitches them back together on a single timeline.
+export async function transcribeMedia(
+  filePath: string,
+  provider: TranscriptionProvider = transcriptionProvider,
+  options: TranscribeMediaOptions = {},
+): Promise<TranscriptionResult> {
+  const format = provider.audioFormat;
+  if (!format) {
+    return provider.transcribe(filePath, options);
+  }
+
+  const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "transcribe-"));
+  try {
+    const audioPath = path.join(workDir, `audio${AUDIO_EXTENSIONS[format]}`);
+    await extractAudio(filePath, audioPath, format);
+
+    const duration = await probeDuration(audioPath);
+    const bytesLimitSeconds = provider.maxFileBytes ? maxSecondsForBytes(provider.maxFileBytes, format) : Infinity;
+    const maxChunkSeconds = Math.min(
+      options.maxChunkSeconds ?? Number(process.env.TRANSCRIPTION_CHUNK_SECONDS || 600),
+      bytesLimitSeconds,
+    );
+
+    if (duration <= maxChunkSeconds) {
+      const result = await provider.transcribe(audioPath, options);
+      options.onChunk?.(result, 1, 1);
+      return { ...result, durationSeconds: result.durationSeconds ?? duration };
+    }
+
+    const silences = await detectSilences(audioPath);
+    const chunks = planChunks(duration, silences, maxChunkSeconds);
+    const concurrency = options.concurrency ?? Number(process.env.TRANSCRIPTION_CONCURRENCY || 3);
+
+    let done = 0;
+    const results = await mapWithConcurrency(chunks, concurrency, async (chunk) => {
+      const chunkPath = await cutChunk(audioPath, chunk, workDir, format);
+      try {
+        const result = await provider.transcribe(chunkPath, options);
+        options.onChunk?.(result, ++done, chunks.length);
+        return result;
+      } finally {
+        await fs.promises.rm(chunkPath, { force: true });
+      }
+    });
+
+    return stitchTranscripts(results, chunks.map(chunk => chunk.start), duration);
+  } finally {
+    await fs.promises.rm(workDir, { recursive: true, force: true });
+  }
+}
+
+// Joins per-chunk results, shifting each chunk's segment times by the chunk's offset.
+export function stitchTranscripts(results: TranscriptionResult[], offsets: number[], durationSeconds?: number): TranscriptionResult {
+  const segments: TranscriptSegment[] = [];
+  results.forEach((result, i) => {
+    for (const segment of result.segments ?? []) {
+      segments.push({ ...segment, start: segment.start + offsets[i], end: segment.end + offsets[i] });
+    }
+  });
+
+  return {
+    text: results.map(result => result.text.trim()).filter(Boolean).join(" "),
+    language: results.find(result => result.language)?.language,
+    durationSeconds,
+    segments,
+  };
+}
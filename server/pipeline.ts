@@ -0,0 +1,449 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { pipelineStages, type GenerationOptions, type Job, type PipelineStage, type RegenerateFlashcardsRequest, type Video } from "@shared/schema";
+import { clozeAnswer, clozeIndices } from "@shared/cloze";
+import { storage } from "./storage";
+import { streamFlashcards, type FlashcardPair } from "./lib/openai";
+import { assessTranscript } from "./lib/transcript-quality";
+import { transcribeMedia, type TranscriptSegment, type TranscriptionResult } from "./lib/transcription";
+import { DownloadError, mediaDownloader } from "./lib/download";
+import { detectSubtitleFormat, parseSubtitles } from "./lib/subtitles";
+import {
+  DOCUMENT_MIME_TYPES,
+  DocumentExtractionError,
+  extractDocument,
+  type DocumentFormat,
+  type DocumentSection,
+} from "./lib/documents";
+import { registerJobHandler } from "./jobs";
+import { publishProcessingEvent } from "./events";
+
+// A failure attributed to one pipeline stage. `code` is a stable identifier
+// the client uses to pick guidance; `retryable: false` skips job retries.
+export class PipelineError extends Error {
+  constructor(
+    readonly stage: PipelineStage,
+    readonly code: string,
+    message: string,
+    readonly retryable = true,
+  ) {
+    super(message);
+    this.name = "PipelineError";
+  }
+}
+
+function toPipelineError(stage: PipelineStage, error: unknown): PipelineError {
+  if (error instanceof PipelineError) return error;
+
+  const message = error instanceof Error ? error.message : "Unknown error";
+  const lower = message.toLowerCase();
+
+  if (lower.includes("api key") || lower.includes("401")) {
+    return new PipelineError(stage, "provider_auth", message, false);
+  }
+  if (lower.includes("quota") || lower.includes("billing")) {
+    return new PipelineError(stage, "provider_quota", message, false);
+  }
+  if (lower.includes("rate limit") || lower.includes("429")) {
+    return new PipelineError(stage, "rate_limited", message);
+  }
+  return new PipelineError(stage, `${stage}_failed`, message);
+}
+
+async function runStage<T>(stage: PipelineStage, fn: () => Promise<T>): Promise<T> {
+  try {
+    return await fn();
+  } catch (error) {
+    throw toPipelineError(stage, error);
+  }
+}
+
+// The first stage whose output is not stored yet: anything after a saved
+// transcription can be redone without transcribing again.
+function resumeStage(video: Video): PipelineStage {
+  if (video.transcription) return "generate";
+  if (video.failedStage === "upload" || video.failedStage === "transcribe") return video.failedStage;
+  return "upload";
+}
+
+// True when `stage` is at or after `fromStage`, i.e. it must run on this attempt.
+function shouldRun(stage: PipelineStage, fromStage: PipelineStage): boolean {
+  return pipelineStages.indexOf(stage) >= pipelineStages.indexOf(fromStage);
+}
+
+// Decided afresh on every attempt, so an automatic retry after a failure in
+// a late stage (say, a rate-limited generate) doesn't download and
+// transcribe again.
+async function attemptStage(job: Job): Promise<PipelineStage> {
+  const video = await storage.getVideo(job.videoId!);
+  return video ? resumeStage(video) : "upload";
+}
+
+async function markFailed(job: Job, error: Error) {
+  const failure = error instanceof PipelineError
+    ? error
+    : new PipelineError("upload", "unknown", error.message);
+
+  await storage.setVideoFailure(job.videoId!, {
+    errorCode: failure.code,
+    errorMessage: failure.message,
+    failedStage: failure.stage,
+  });
+  await storage.updateVideoStatus(job.videoId!, "failed", 0);
+  // The assessment lets clients show why a transcript was rejected without
+  // fetching the video again.
+  const video = await storage.getVideo(job.videoId!);
+  publishProcessingEvent(job.videoId!, {
+    type: "failed",
+    failure: { errorCode: failure.code, errorMessage: failure.message, failedStage: failure.stage },
+    transcriptAssessment: video?.transcriptAssessment ?? null,
+  });
+}
+
+// Stores the status and tells any open event streams. `stage` is the stage
+// now starting, or null once processing has finished.
+async function setProgress(videoId: number, stage: PipelineStage | null, progress: number) {
+  const status = stage ? "processing" : "completed";
+  await storage.updateVideoStatus(videoId, status, progress);
+  publishProcessingEvent(videoId, { type: "progress", status, progress, stage });
+}
+
+export function registerPipelineJobHandlers() {
+  registerJobHandler("process-video", {
+    run: async (job: Job) => processVideo(
+      job.videoId!,
+      job.payload as { filePath?: string; subtitlePath?: string },
+      await attemptStage(job),
+    ),
+    onDeadLetter: markFailed,
+  });
+
+  registerJobHandler("process-video-url", {
+    run: async (job: Job) => processVideoFromUrl(
+      job.videoId!,
+      job.payload.videoUrl as string,
+      await attemptStage(job),
+    ),
+    onDeadLetter: markFailed,
+  });
+
+  registerJobHandler("process-document", {
+    run: async (job: Job) => processDocument(
+      job.videoId!,
+      job.payload.filePath as string,
+      await attemptStage(job),
+    ),
+    onDeadLetter: markFailed,
+  });
+
+  registerJobHandler("regenerate-flashcards", {
+    run: (job: Job) => regenerateFlashcards(job.videoId!, job.payload as RegenerateFlashcardsRequest),
+    onDeadLetter: markFailed,
+  });
+}
+
+// Background video processing function. Errors are rethrown so the job
+// worker can retry the attempt or dead-letter it. Stages before `fromStage`
+// are skipped when their output (e.g. the transcription) is already stored.
+// When a subtitle file was uploaded its captions replace transcription, and
+// the video file (if any) is not needed at all.
+async function processVideo(
+  videoId: number,
+  files: { filePath?: string; subtitlePath?: string },
+  fromStage: PipelineStage,
+) {
+  const { filePath, subtitlePath } = files;
+  const inputPath = subtitlePath ?? filePath;
+
+  await processMedia(videoId, fromStage, async () => {
+    if (!inputPath || !fs.existsSync(inputPath)) {
+      throw new PipelineError("upload", "file_missing", "The uploaded media file is no longer available. Please upload it again.", false);
+    }
+    return inputPath;
+  }, subtitlePath ? transcribeSubtitles : (mediaPath) => transcribeFile(videoId, mediaPath));
+
+  // Clean up the subtitle file; the media itself is kept for playback
+  if (subtitlePath) {
+    fs.unlink(subtitlePath, (err) => {
+      if (err && err.code !== "ENOENT") console.error('Failed to delete uploaded file:', err);
+    });
+  }
+}
+
+// Background processing for URL uploads: the media is downloaded to a
+// temporary directory and then goes through the same stages as a file upload.
+async function processVideoFromUrl(videoId: number, videoUrl: string, fromStage: PipelineStage) {
+  const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "media-"));
+  try {
+    await processMedia(videoId, fromStage, async () => {
+      try {
+        const media = await mediaDownloader.download(videoUrl, workDir);
+        return media.filePath;
+      } catch (error) {
+        if (error instanceof DownloadError) {
+          throw new PipelineError("upload", error.code, error.message, error.retryable);
+        }
+        throw error;
+      }
+    }, (mediaPath) => transcribeFile(videoId, mediaPath));
+  } finally {
+    await fs.promises.rm(workDir, { recursive: true, force: true });
+  }
+}
+
+// Documents go through the same stages as media, with text extraction in
+// place of transcription. The file is only needed until its text is stored.
+async function processDocument(videoId: number, filePath: string, fromStage: PipelineStage) {
+  const video = await storage.getVideo(videoId);
+  const format = (Object.keys(DOCUMENT_MIME_TYPES) as DocumentFormat[])
+    .find(key => DOCUMENT_MIME_TYPES[key] === video?.mimeType);
+
+  await processMedia(videoId, fromStage, async () => {
+    if (!format || !fs.existsSync(filePath)) {
+      throw new PipelineError("upload", "file_missing", "The uploaded document is no longer available. Please upload it again.", false);
+    }
+    return filePath;
+  }, async (documentPath) => {
+    try {
+      return await extractDocument(documentPath, format!);
+    } catch (error) {
+      if (error instanceof DocumentExtractionError) {
+        throw new PipelineError("transcribe", "document_unreadable", error.message, false);
+      }
+      throw error;
+    }
+  });
+
+  fs.unlink(filePath, (err) => {
+    if (err && err.code !== "ENOENT") console.error('Failed to delete uploaded file:', err);
+  });
+}
+
+// Reports each chunk's text as it arrives and moves progress through the
+// transcription share (30-60%) of the bar. No language is passed, so the
+// provider reports the one it detects for the quality check.
+async function transcribeFile(videoId: number, filePath: string): Promise<TranscriptionResult> {
+  return transcribeMedia(filePath, undefined, {
+    onChunk: (result, done, total) => {
+      publishProcessingEvent(videoId, { type: "transcript", text: result.text, partial: true });
+      if (done < total) {
+        setProgress(videoId, "transcribe", 30 + Math.round((30 * done) / total)).catch(console.error);
+      }
+    },
+  });
+}
+
+async function transcribeSubtitles(subtitlePath: string): Promise<TranscriptionResult> {
+  const content = await fs.promises.readFile(subtitlePath, "utf8");
+  try {
+    return parseSubtitles(content, detectSubtitleFormat(subtitlePath, content));
+  } catch (error) {
+    throw new PipelineError("transcribe", "subtitle_parse", (error as Error).message, false);
+  }
+}
+
+// Shared stages for every source. `acquireMedia` runs as the upload stage
+// and returns a local file path for `transcribe`; both are skipped when a
+// stored transcription can be reused.
+async function processMedia(
+  videoId: number,
+  fromStage: PipelineStage,
+  acquireMedia: () => Promise<string>,
+  transcribe: (filePath: string) => Promise<SourceText>,
+) {
+  // Update status to processing
+  await storage.setVideoFailure(videoId, null);
+  await setProgress(videoId, "upload", 10);
+
+  const video = await storage.getVideo(videoId);
+  const needsTranscription = shouldRun("transcribe", fromStage) || !video?.transcription;
+
+  if (needsTranscription) {
+    const filePath = await runStage("upload", acquireMedia);
+
+    await setProgress(videoId, "transcribe", 30);
+
+    await runStage("transcribe", async () => {
+      const transcription = await transcribe(filePath);
+      await saveTranscription(videoId, transcription);
+    });
+  }
+
+  await setProgress(videoId, "generate", 60);
+
+  await generateAndSaveFlashcards(videoId);
+
+  await setProgress(videoId, null, 100);
+}
+
+// Transcribed media yields timed segments; documents yield labelled sections.
+type SourceText = TranscriptionResult | { text: string; segments: DocumentSection[] };
+type SourceSegment = Partial<TranscriptSegment> & { text: string; label?: string };
+
+// Saves the text and its segments, and assesses whether it is worth
+// generating cards from; the verdict is checked before generation.
+async function saveTranscription(videoId: number, transcription: SourceText) {
+  const segments: SourceSegment[] = transcription.segments ?? [];
+  const video = await storage.getVideo(videoId);
+  await storage.updateVideoTranscription(videoId, transcription.text);
+  await storage.setTranscriptAssessment(videoId, assessTranscript({
+    text: transcription.text,
+    segments,
+    language: "language" in transcription ? transcription.language : null,
+    expectedLanguage: video?.generationOptions?.language || process.env.TRANSCRIPTION_LANGUAGE || undefined,
+    sourceKind: video?.sourceKind,
+  }));
+  publishProcessingEvent(videoId, { type: "transcript", text: transcription.text, partial: false });
+  await storage.replaceTranscriptSegments(videoId, segments.map((segment, position) => ({
+    videoId,
+    position,
+    start: segment.start ?? null,
+    end: segment.end ?? null,
+    label: segment.label ?? null,
+    text: segment.text,
+    speaker: segment.speaker ?? null,
+    avgLogprob: segment.avgLogprob ?? null,
+    noSpeechProb: segment.noSpeechProb ?? null,
+  })));
+}
+
+// Regenerates cards from the stored transcription, replacing the current
+// set or appending new cards that don't repeat existing questions.
+async function regenerateFlashcards(videoId: number, request: RegenerateFlashcardsRequest) {
+  await storage.setVideoFailure(videoId, null);
+  await setProgress(videoId, "generate", 60);
+
+  await generateAndSaveFlashcards(videoId, request);
+
+  await setProgress(videoId, null, 100);
+}
+
+// A fixed count wins; a density is scaled by the length of the media.
+// Documents have no running time, so they keep the default.
+function targetCardCount(options: GenerationOptions | null, segments: { end: number | null }[]): number | undefined {
+  if (options?.cardCount) return options.cardCount;
+
+  const durationSeconds = Math.max(0, ...segments.map(segment => segment.end ?? 0));
+  if (options?.cardsPerMinute && durationSeconds > 0) {
+    return Math.min(50, Math.max(1, Math.round((options.cardsPerMinute * durationSeconds) / 60)));
+  }
+  return undefined;
+}
+
+// Runs the generate and save stages together: each card is saved as soon as
+// the model finishes writing it, so learners can start on the first cards
+// while the rest generate. A retry regenerates the whole set.
+async function generateAndSaveFlashcards(
+  videoId: number,
+  request: RegenerateFlashcardsRequest = { mode: "replace" },
+) {
+  const existing = request.mode === "append" ? await storage.getFlashcardsByVideoId(videoId) : [];
+  const segments = await storage.getTranscriptSegmentsByVideoId(videoId);
+  const segmentsByPosition = new Map(segments.map(segment => [segment.position, segment]));
+  const firstOrder = existing.length > 0 ? Math.max(...existing.map(card => card.order)) + 1 : 0;
+  let expectedCount = 10;
+  let savedCount = 0;
+
+  // In replace mode the old cards (or any left behind by an earlier failed
+  // attempt) are cleared when the first new card arrives, so a generation
+  // that fails outright leaves the current deck alone.
+  const clearPreviousCards = async () => {
+    await storage.deleteFlashcardsByVideoId(videoId);
+
+    // Session progress is tracked by card index, which no longer lines up
+    // once the deck has been replaced.
+    const session = await storage.getStudySessionByVideoId(videoId);
+    if (session) {
+      await storage.updateStudySession(session.id, {
+        currentCardIndex: 0,
+        completedCards: [],
+        reviewCards: [],
+        completedAt: null,
+      });
+    }
+  };
+
+  // A cloze note is saved as one sibling card per deletion, next to each other.
+  const saveFlashcard = async (card: FlashcardPair) => {
+    if (savedCount === 0 && request.mode === "replace") {
+      await clearPreviousCards();
+    }
+
+    const [first, last] = card.sourceSegments ?? [];
+    const options = card.distractors
+      ? [{ text: card.answer, correct: true }, ...card.distractors.map(text => ({ text, correct: false }))]
+      : null;
+    const variants = card.cardType === "cloze"
+      ? clozeIndices(card.question).map(index => ({ answer: clozeAnswer(card.question, index), clozeIndex: index }))
+      : [{ answer: card.answer, clozeIndex: null }];
+
+    for (const variant of variants) {
+      const flashcard = await storage.createFlashcard({
+        videoId,
+        cardType: card.cardType,
+        question: card.question,
+        ...variant,
+        options,
+        order: firstOrder + savedCount,
+        sourceSegmentStart: first ?? null,
+        sourceSegmentEnd: last ?? null,
+        sourceStartTime: first !== undefined ? segmentsByPosition.get(first)?.start ?? null : null,
+        sourceEndTime: last !== undefined ? segmentsByPosition.get(last)?.end ?? null : null,
+        sourceLabel: first !== undefined ? segmentsByPosition.get(first)?.label ?? null : null,
+      });
+      savedCount++;
+      publishProcessingEvent(videoId, { type: "flashcard", flashcard });
+    }
+  };
+
+  await runStage("generate", async () => {
+    // Generate flashcards using OpenAI with actual transcription
+    const video = await storage.getVideo(videoId);
+    if (!video?.transcription) {
+      throw new PipelineError("generate", "missing_transcription", "No transcription available for flashcard generation");
+    }
+
+    // Transcripts saved before assessments existed are assessed now.
+    let assessment = video.transcriptAssessment;
+    if (!assessment) {
+      assessment = assessTranscript({ text: video.transcription, segments, sourceKind: video.sourceKind });
+      await storage.setTranscriptAssessment(videoId, assessment);
+    }
+    if (!assessment.passed && !video.transcriptQualityOverride) {
+      const reasons = assessment.issues.map(issue => issue.message).join(" ");
+      throw new PipelineError("generate", "transcript_quality", reasons, false);
+    }
+
+    // A count given when regenerating overrides the one chosen at upload.
+    const options = video.generationOptions;
+    const count = request.count ?? targetCardCount(options, segments);
+    expectedCount = count ?? expectedCount;
+
+    const cards = streamFlashcards(video.transcription, {
+      count,
+      difficulty: options?.difficulty,
+      focusTopics: options?.focusTopics,
+      answerLength: options?.answerLength,
+      audienceLevel: options?.audienceLevel,
+      cardTypes: options?.cardTypes,
+      instructions: request.instructions,
+      // Cloze siblings share their note, which only needs listing once.
+      existingQuestions: Array.from(new Set(existing.map(card => card.question))),
+      segments: segments.map(segment => ({ position: segment.position, text: segment.text })),
+      sourceKind: video.sourceKind,
+      llm: request.llm,
+    });
+
+    for await (const card of cards) {
+      await runStage("save", () => saveFlashcard(card));
+      // Generation covers 60-95%; the expected count is only an estimate.
+      const progress = 60 + Math.round(35 * Math.min(savedCount / expectedCount, 1));
+      await setProgress(videoId, "generate", progress);
+    }
+
+    if (savedCount === 0) {
+      throw new PipelineError("generate", "no_flashcards", "Failed to generate flashcards from video content");
+    }
+  });
+}
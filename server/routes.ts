@@ -4,26 +4,187 @@ import { storage } from "./storage";
 import multer from "multer";
 import path from "path";
 import fs from "fs";
-import { insertVideoSchema, insertStudySessionSchema } from "@shared/schema";
-import { generateFlashcards } from "./lib/openai";
+import crypto from "crypto";
+import { insertVideoSchema, insertStudySessionSchema, regenerateFlashcardsSchema, transcriptQualityOverrideSchema, reviewCardSchema, quizAnswerSchema, dueReviewsQuerySchema, reviewLogsQuerySchema, reviewStatsQuerySchema, createUploadSchema, generationOptionsSchema, type GenerationOptions, type Job, type SourceKind, type UploadSession, type Video, type DueCard, type ReviewGrade, type ReviewLog } from "@shared/schema";
 import { authMiddleware, requireAuth } from "./auth";
+import { enqueueJob } from "./jobs";
+import { subscribeToProcessingEvents } from "./events";
+import { MEDIA_UPLOAD_EXTENSIONS, sniffMediaType } from "./lib/media-type";
+import { DOCUMENT_EXTENSIONS, DOCUMENT_MIME_TYPES, detectDocumentFormat } from "./lib/documents";
+import { ArchiveError, extractZip } from "./lib/archive";
+import { DEFAULT_PART_SIZE, UploadPartError, assembleParts, listParts, totalParts, writePart } from "./lib/chunked-upload";
+import { scheduler } from "./lib/scheduler";
+import { buildReviewQueue } from "./lib/review-queue";
+import { summarizeReviewLogs } from "./lib/review-stats";
+import { SUBTITLE_EXTENSIONS, SubtitleParseError, detectSubtitleFormat, parseSubtitles } from "./lib/subtitles";
+
+const UPLOAD_DIR = 'uploads/';
+const MAX_UPLOAD_BYTES = 500 * 1024 * 1024; // 500MB limit
 
 // Configure multer for file uploads
 const upload = multer({
-  dest: 'uploads/',
+  dest: UPLOAD_DIR,
   limits: {
-    fileSize: 500 * 1024 * 1024, // 500MB limit
+    fileSize: MAX_UPLOAD_BYTES,
   },
   fileFilter: (req, file, cb) => {
-    const allowedMimes = ['video/mp4', 'video/quicktime', 'video/x-msvideo'];
-    if (allowedMimes.includes(file.mimetype)) {
+    // Browsers report caption files inconsistently, so check the extension instead.
+    if (file.fieldname === 'subtitles') {
+      if (SUBTITLE_EXTENSIONS.includes(path.extname(file.originalname).toLowerCase())) {
+        cb(null, true);
+      } else {
+        cb(new Error('Invalid subtitle file. Only SRT and VTT files are allowed.'));
+      }
+      return;
+    }
+
+    // Only a first pass: the real container is sniffed once the file is on disk.
+    const isMediaMime = file.mimetype.startsWith('video/') || file.mimetype.startsWith('audio/');
+    if (isMediaMime || MEDIA_UPLOAD_EXTENSIONS.includes(path.extname(file.originalname).toLowerCase())) {
+      cb(null, true);
+    } else {
+      cb(new Error('Invalid file type. Upload a video (MP4, MOV, AVI, WebM, MKV) or audio file (MP3, M4A, WAV, OGG, FLAC).'));
+    }
+  },
+});
+
+// Documents (PDF, PPTX, Markdown) are uploaded separately from media.
+const documentUpload = multer({
+  dest: UPLOAD_DIR,
+  limits: {
+    fileSize: 100 * 1024 * 1024, // 100MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    if (DOCUMENT_EXTENSIONS.includes(path.extname(file.originalname).toLowerCase())) {
       cb(null, true);
     } else {
-      cb(new Error('Invalid file type. Only MP4, MOV, and AVI files are allowed.'));
+      cb(new Error('Invalid document. Only PDF, PPTX and Markdown files are allowed.'));
     }
   },
 });
 
+// Batch uploads take any mix of media, documents and ZIP archives of them.
+const batchUpload = multer({
+  dest: UPLOAD_DIR,
+  limits: {
+    fileSize: 500 * 1024 * 1024, // 500MB limit per file
+    files: 50,
+  },
+  fileFilter: (req, file, cb) => {
+    const extension = path.extname(file.originalname).toLowerCase();
+    const isMediaMime = file.mimetype.startsWith('video/') || file.mimetype.startsWith('audio/');
+    if (isMediaMime || extension === '.zip' || MEDIA_UPLOAD_EXTENSIONS.includes(extension) || DOCUMENT_EXTENSIONS.includes(extension)) {
+      cb(null, true);
+    } else {
+      cb(new Error(`Unsupported file in batch: ${file.originalname}`));
+    }
+  },
+});
+
+interface SourceFile {
+  path: string;
+  filename: string;
+  originalName: string;
+  size: number;
+}
+
+// Decides how a file on disk will be processed from its contents.
+async function classifySourceFile(file: SourceFile): Promise<{ sourceKind: SourceKind; mimeType: string } | null> {
+  const mediaType = await sniffMediaType(file.path);
+  if (mediaType) {
+    return { sourceKind: "media", mimeType: mediaType.mimeType };
+  }
+  const documentFormat = await detectDocumentFormat(file.path, file.originalName);
+  if (documentFormat) {
+    return { sourceKind: "document", mimeType: DOCUMENT_MIME_TYPES[documentFormat] };
+  }
+  return null;
+}
+
+// Uploaded media is kept after processing so it can be played back while studying.
+function localMediaPath(video: Video): string | null {
+  if (!video.mimeType.startsWith('video/') && !video.mimeType.startsWith('audio/')) {
+    return null;
+  }
+  const filePath = path.join(UPLOAD_DIR, video.filename);
+  return fs.existsSync(filePath) ? filePath : null;
+}
+
+function subtitleMimeType(filename: string) {
+  return path.extname(filename).toLowerCase() === '.vtt' ? 'text/vtt' : 'application/x-subrip';
+}
+
+// Generation options arrive as a JSON object, or as a JSON string in a
+// multipart form field. Absent options leave the defaults in place.
+function parseGenerationOptions(value: unknown):
+  | { success: true; data: GenerationOptions | null }
+  | { success: false; message: string; errors?: unknown } {
+  if (value === undefined || value === null || value === "") {
+    return { success: true, data: null };
+  }
+
+  let raw = value;
+  if (typeof value === "string") {
+    try {
+      raw = JSON.parse(value);
+    } catch {
+      return { success: false, message: "Generation options must be valid JSON" };
+    }
+  }
+
+  const parsed = generationOptionsSchema.safeParse(raw);
+  return parsed.success
+    ? { success: true, data: parsed.data }
+    : { success: false, message: "Invalid generation options", errors: parsed.error.flatten() };
+}
+
+// What the client needs to resume an upload: which parts are already stored.
+async function summarizeUpload(session: UploadSession) {
+  return {
+    id: session.id,
+    originalName: session.originalName,
+    fileSize: session.fileSize,
+    partSize: session.partSize,
+    totalParts: totalParts(session),
+    receivedParts: session.status === "completed" ? [] : await listParts(UPLOAD_DIR, session.id),
+    status: session.status,
+    videoId: session.videoId,
+  };
+}
+
+// Schedules the card's next review and appends the answer to the review log.
+async function recordCardReview(userId: string, flashcardId: number, grade: ReviewGrade, responseTimeMs?: number) {
+  const previous = await storage.getCardReviewState(userId, flashcardId);
+  const next = scheduler.review(previous, grade);
+  return storage.recordReview({
+    userId,
+    flashcardId,
+    grade,
+    responseTimeMs: responseTimeMs ?? null,
+    previousIntervalDays: previous?.intervalDays ?? 0,
+    nextIntervalDays: next.intervalDays,
+    reviewedAt: next.lastReviewedAt!,
+  }, {
+    userId,
+    flashcardId,
+    ...next,
+    introducedAt: previous?.introducedAt ?? next.lastReviewedAt,
+  });
+}
+
+// The parts of a job the client needs to show processing state.
+function summarizeJob(job: Job) {
+  return {
+    id: job.id,
+    type: job.type,
+    status: job.status,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    nextRunAt: job.status === "queued" ? job.runAt : null,
+    lastError: job.lastError,
+  };
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Add auth middleware to all routes
   app.use(authMiddleware);
@@ -37,33 +198,336 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Upload video endpoint
-  app.post("/api/videos/upload", requireAuth, upload.single('video'), async (req, res) => {
+  // Upload video endpoint. Accepts a video, a video with an SRT/VTT sidecar,
+  // or subtitles alone; captions are used instead of transcribing the audio.
+  app.post("/api/videos/upload", requireAuth, upload.fields([
+    { name: 'video', maxCount: 1 },
+    { name: 'subtitles', maxCount: 1 },
+  ]), async (req, res) => {
+    const files = req.files as Record<string, Express.Multer.File[]> | undefined;
+    const videoFile = files?.video?.[0];
+    const subtitleFile = files?.subtitles?.[0];
+    const discardUploads = () => {
+      for (const file of [videoFile, subtitleFile]) {
+        if (file) fs.unlink(file.path, () => {});
+      }
+    };
+
     try {
-      if (!req.file) {
+      if (!videoFile && !subtitleFile) {
         return res.status(400).json({ message: "No video file provided" });
       }
 
+      const options = parseGenerationOptions(req.body.options);
+      if (!options.success) {
+        discardUploads();
+        return res.status(400).json({ message: options.message, errors: options.errors });
+      }
+
+      // Reject unreadable captions now rather than failing in the background.
+      if (subtitleFile) {
+        const content = await fs.promises.readFile(subtitleFile.path, "utf8");
+        parseSubtitles(content, detectSubtitleFormat(subtitleFile.originalname, content));
+      }
+
+      // Trust the file's own header over the browser-reported type.
+      const mediaType = videoFile ? await sniffMediaType(videoFile.path) : null;
+      if (videoFile && !mediaType) {
+        discardUploads();
+        return res.status(400).json({ message: "Unsupported media file. Upload a common video or audio format." });
+      }
+
+      const primaryFile = (videoFile ?? subtitleFile)!;
       const videoData = {
-        filename: req.file.filename,
-        originalName: req.file.originalname,
-        fileSize: req.file.size,
-        mimeType: req.file.mimetype,
+        filename: primaryFile.filename,
+        originalName: primaryFile.originalname,
+        fileSize: primaryFile.size,
+        mimeType: mediaType ? mediaType.mimeType : subtitleMimeType(subtitleFile!.originalname),
+        generationOptions: options.data,
+        userId: req.user!.id,
       };
 
       const validatedData = insertVideoSchema.parse(videoData);
       const video = await storage.createVideo(validatedData);
 
-      // Start processing in background
-      processVideo(video.id, req.file.path).catch(console.error);
+      // Processing runs on the background job worker
+      await enqueueJob("process-video", video.id, {
+        ...(videoFile ? { filePath: videoFile.path } : {}),
+        ...(subtitleFile ? { subtitlePath: subtitleFile.path } : {}),
+      });
 
       res.json({ video });
     } catch (error) {
+      discardUploads();
+      if (error instanceof SubtitleParseError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error('Upload error:', error);
       res.status(500).json({ message: "Failed to upload video" });
     }
   });
 
+  // Resumable uploads: start a session, PUT each part with its SHA-256 in
+  // X-Content-SHA256, then complete it. Parts already stored survive dropped
+  // connections, so the client only resends what's missing.
+  app.post("/api/uploads", requireAuth, async (req, res) => {
+    try {
+      const parsed = createUploadSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid upload request", errors: parsed.error.flatten() });
+      }
+      if (parsed.data.fileSize > MAX_UPLOAD_BYTES) {
+        return res.status(413).json({ message: "File is larger than the 500MB limit" });
+      }
+
+      const session = await storage.createUploadSession({
+        id: crypto.randomUUID(),
+        userId: req.user!.id,
+        ...parsed.data,
+        partSize: DEFAULT_PART_SIZE,
+      });
+
+      res.json({ upload: await summarizeUpload(session) });
+    } catch (error) {
+      console.error('Create upload error:', error);
+      res.status(500).json({ message: "Failed to start upload" });
+    }
+  });
+
+  app.get("/api/uploads/:id", requireAuth, async (req, res) => {
+    try {
+      const session = await storage.getUploadSession(req.params.id);
+      if (!session || session.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+
+      res.json({ upload: await summarizeUpload(session) });
+    } catch (error) {
+      console.error('Get upload error:', error);
+      res.status(500).json({ message: "Failed to get upload" });
+    }
+  });
+
+  app.put("/api/uploads/:id/parts/:index", requireAuth, async (req, res) => {
+    try {
+      const session = await storage.getUploadSession(req.params.id);
+      if (!session || session.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+      if (session.status !== "active") {
+        return res.status(409).json({ message: "Upload is already complete" });
+      }
+
+      const index = Number(req.params.index);
+      await writePart(UPLOAD_DIR, session.id, session, index, req, String(req.headers['x-content-sha256'] ?? ''));
+
+      res.json({ part: index });
+    } catch (error) {
+      if (error instanceof UploadPartError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Upload part error:', error);
+      res.status(500).json({ message: "Failed to store upload part" });
+    }
+  });
+
+  // Assembles the parts and starts processing. Safe to repeat: a completed
+  // upload answers with the video it already created.
+  app.post("/api/uploads/:id/complete", requireAuth, async (req, res) => {
+    try {
+      const session = await storage.getUploadSession(req.params.id);
+      if (!session || session.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+      if (session.status === "completed" && session.videoId) {
+        return res.json({ video: await storage.getVideo(session.videoId) });
+      }
+
+      const options = parseGenerationOptions(req.body?.options);
+      if (!options.success) {
+        return res.status(400).json({ message: options.message, errors: options.errors });
+      }
+
+      const filename = crypto.randomBytes(16).toString("hex");
+      const filePath = path.join(UPLOAD_DIR, filename);
+      await assembleParts(UPLOAD_DIR, session.id, session, filePath);
+
+      // The parts are gone once assembled, so a rejected file ends the
+      // session; resuming it would only send every part again.
+      const mediaType = await sniffMediaType(filePath);
+      if (!mediaType) {
+        fs.unlink(filePath, () => {});
+        await storage.deleteUploadSession(session.id);
+        return res.status(400).json({ message: "Unsupported media file. Upload a common video or audio format." });
+      }
+
+      const video = await storage.createVideo(insertVideoSchema.parse({
+        filename,
+        originalName: session.originalName,
+        fileSize: session.fileSize,
+        mimeType: mediaType.mimeType,
+        generationOptions: options.data,
+        userId: req.user!.id,
+      }));
+      await storage.completeUploadSession(session.id, video.id);
+
+      // Processing runs on the background job worker
+      await enqueueJob("process-video", video.id, { filePath });
+
+      res.json({ video });
+    } catch (error) {
+      if (error instanceof UploadPartError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Complete upload error:', error);
+      res.status(500).json({ message: "Failed to complete upload" });
+    }
+  });
+
+  // Upload a PDF, slide deck or Markdown notes as a study source
+  app.post("/api/documents/upload", requireAuth, documentUpload.single('document'), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No document provided" });
+      }
+
+      const options = parseGenerationOptions(req.body.options);
+      if (!options.success) {
+        fs.unlink(req.file.path, () => {});
+        return res.status(400).json({ message: options.message, errors: options.errors });
+      }
+
+      const format = await detectDocumentFormat(req.file.path, req.file.originalname);
+      if (!format) {
+        fs.unlink(req.file.path, () => {});
+        return res.status(400).json({ message: "The file doesn't look like a PDF, PPTX or Markdown document" });
+      }
+
+      const validatedData = insertVideoSchema.parse({
+        filename: req.file.filename,
+        originalName: req.file.originalname,
+        fileSize: req.file.size,
+        mimeType: DOCUMENT_MIME_TYPES[format],
+        sourceKind: "document",
+        generationOptions: options.data,
+        userId: req.user!.id,
+      });
+      const video = await storage.createVideo(validatedData);
+
+      // Processing runs on the background job worker
+      await enqueueJob("process-document", video.id, { filePath: req.file.path });
+
+      res.json({ video });
+    } catch (error) {
+      console.error('Document upload error:', error);
+      res.status(500).json({ message: "Failed to upload document" });
+    }
+  });
+
+  // Upload several files (or ZIP archives of them) at once. Each file becomes
+  // its own source with its own job, grouped under a new deck.
+  app.post("/api/decks/upload", requireAuth, batchUpload.array('files'), async (req, res) => {
+    const uploaded = (req.files as Express.Multer.File[] | undefined) ?? [];
+    const candidates: SourceFile[] = [];
+    const skipped: { name: string; reason: string }[] = [];
+
+    try {
+      if (uploaded.length === 0) {
+        return res.status(400).json({ message: "No files provided" });
+      }
+
+      const options = parseGenerationOptions(req.body.options);
+      if (!options.success) {
+        for (const file of uploaded) fs.unlink(file.path, () => {});
+        return res.status(400).json({ message: options.message, errors: options.errors });
+      }
+
+      for (const file of uploaded) {
+        if (path.extname(file.originalname).toLowerCase() !== '.zip') {
+          candidates.push({ path: file.path, filename: file.filename, originalName: file.originalname, size: file.size });
+          continue;
+        }
+        try {
+          candidates.push(...await extractZip(file.path, UPLOAD_DIR));
+        } catch (error) {
+          if (!(error instanceof ArchiveError)) throw error;
+          skipped.push({ name: file.originalname, reason: error.message });
+        } finally {
+          fs.unlink(file.path, () => {});
+        }
+      }
+
+      const accepted: { file: SourceFile; sourceKind: SourceKind; mimeType: string }[] = [];
+      for (const file of candidates) {
+        const type = await classifySourceFile(file);
+        if (type) {
+          accepted.push({ file, ...type });
+        } else {
+          skipped.push({ name: file.originalName, reason: "Unsupported file type" });
+          fs.unlink(file.path, () => {});
+        }
+      }
+
+      if (accepted.length === 0) {
+        return res.status(400).json({ message: "None of the files could be processed", skipped });
+      }
+
+      const name = typeof req.body.name === 'string' && req.body.name.trim()
+        ? req.body.name.trim()
+        : uploaded.length === 1
+          ? path.parse(uploaded[0].originalname).name
+          : `Batch upload (${accepted.length} files)`;
+      const deck = await storage.createDeck({ name });
+
+      const created: Video[] = [];
+      for (const { file, sourceKind, mimeType } of accepted) {
+        const video = await storage.createVideo(insertVideoSchema.parse({
+          filename: file.filename,
+          originalName: file.originalName,
+          fileSize: file.size,
+          mimeType,
+          sourceKind,
+          deckId: deck.id,
+          generationOptions: options.data,
+          userId: req.user!.id,
+        }));
+        await enqueueJob(sourceKind === "document" ? "process-document" : "process-video", video.id, { filePath: file.path });
+        created.push(video);
+      }
+
+      res.json({ deck, videos: created, skipped });
+    } catch (error) {
+      for (const file of [...uploaded, ...candidates]) {
+        fs.unlink(file.path, () => {});
+      }
+      console.error('Batch upload error:', error);
+      res.status(500).json({ message: "Failed to upload files" });
+    }
+  });
+
+  // Get a deck with the processing state of each of its sources
+  app.get("/api/decks/:id", async (req, res) => {
+    try {
+      const deckId = parseInt(req.params.id);
+      const deck = await storage.getDeck(deckId);
+
+      if (!deck) {
+        return res.status(404).json({ message: "Deck not found" });
+      }
+
+      const deckVideos = await storage.getVideosByDeckId(deckId);
+      const items = await Promise.all(deckVideos.map(async ({ transcription, ...video }) => {
+        const job = await storage.getLatestJobByVideoId(video.id);
+        return { video, job: job ? summarizeJob(job) : null };
+      }));
+
+      res.json({ deck, items });
+    } catch (error) {
+      console.error('Get deck error:', error);
+      res.status(500).json({ message: "Failed to get deck" });
+    }
+  });
+
   // Upload video from URL endpoint
   app.post("/api/videos/upload-url", requireAuth, async (req, res) => {
     try {
@@ -73,6 +537,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "No video URL provided" });
       }
 
+      const options = parseGenerationOptions(req.body.options);
+      if (!options.success) {
+        return res.status(400).json({ message: options.message, errors: options.errors });
+      }
+
       // Validate URL
       try {
         new URL(videoUrl);
@@ -92,13 +561,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         fileSize: 0, // We don't know the size yet
         mimeType: 'video/mp4', // Default to mp4
         videoUrl, // Store the original URL
+        generationOptions: options.data,
+        userId: req.user!.id,
       };
 
       const validatedData = insertVideoSchema.parse(videoData);
       const video = await storage.createVideo(validatedData);
 
-      // Start processing URL video in background
-      processVideoFromUrl(video.id, videoUrl).catch(console.error);
+      // Processing runs on the background job worker
+      await enqueueJob("process-video-url", video.id, { videoUrl });
 
       res.json({ video });
     } catch (error) {
@@ -117,226 +588,406 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Video not found" });
       }
 
-      res.json({ video });
+      const job = await storage.getLatestJobByVideoId(videoId);
+      const mediaUrl = localMediaPath(video) ? `/api/videos/${videoId}/media` : null;
+
+      res.json({ video, job: job ? summarizeJob(job) : null, mediaUrl });
     } catch (error) {
       console.error('Get video error:', error);
       res.status(500).json({ message: "Failed to get video" });
     }
   });
 
-  // Get flashcards for video
-  app.get("/api/videos/:id/flashcards", async (req, res) => {
+  // Server-Sent Events for a source being processed: stage changes, progress,
+  // transcript text and each saved flashcard. Nothing is replayed, so clients
+  // fetch GET /api/videos/:id once the stream is open to catch up.
+  app.get("/api/videos/:id/events", async (req, res) => {
     try {
       const videoId = parseInt(req.params.id);
-      const flashcards = await storage.getFlashcardsByVideoId(videoId);
-      res.json({ flashcards });
+      const video = await storage.getVideo(videoId);
+
+      if (!video) {
+        return res.status(404).json({ message: "Video not found" });
+      }
+
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        "Connection": "keep-alive",
+        "X-Accel-Buffering": "no",
+      });
+      res.write("retry: 3000\n\n");
+
+      const unsubscribe = subscribeToProcessingEvents(videoId, (event) => {
+        res.write(`data: ${JSON.stringify(event)}\n\n`);
+      });
+      // Comment lines keep proxies from closing an idle connection.
+      const keepAlive = setInterval(() => res.write(": keep-alive\n\n"), 25 * 1000);
+
+      req.on("close", () => {
+        clearInterval(keepAlive);
+        unsubscribe();
+      });
     } catch (error) {
-      console.error('Get flashcards error:', error);
-      res.status(500).json({ message: "Failed to get flashcards" });
+      console.error('Video events error:', error);
+      res.status(500).json({ message: "Failed to open event stream" });
     }
   });
 
-  // Create study session
-  app.post("/api/videos/:id/study-session", async (req, res) => {
+  // Stream an uploaded audio/video file; sendFile handles Range requests for seeking
+  app.get("/api/videos/:id/media", async (req, res) => {
     try {
       const videoId = parseInt(req.params.id);
+      const video = await storage.getVideo(videoId);
+      const filePath = video ? localMediaPath(video) : null;
 
-      // Check if study session already exists
-      let session = await storage.getStudySessionByVideoId(videoId);
-
-      if (!session) {
-        const sessionData = { videoId };
-        const validatedData = insertStudySessionSchema.parse(sessionData);
-        session = await storage.createStudySession(validatedData);
+      if (!video || !filePath) {
+        return res.status(404).json({ message: "Media not found" });
       }
 
-      res.json({ session });
+      res.sendFile(path.resolve(filePath), { headers: { "Content-Type": video.mimeType } });
     } catch (error) {
-      console.error('Create study session error:', error);
-      res.status(500).json({ message: "Failed to create study session" });
+      console.error('Get media error:', error);
+      res.status(500).json({ message: "Failed to get media" });
     }
   });
 
-  // Update study session
-  app.patch("/api/study-sessions/:id", async (req, res) => {
+  // Rerun a failed or completed video, resuming after the last successful stage
+  app.post("/api/videos/:id/retry", requireAuth, async (req, res) => {
     try {
-      const sessionId = parseInt(req.params.id);
-      const updates = req.body;
+      const videoId = parseInt(req.params.id);
+      const video = await storage.getVideo(videoId);
 
-      await storage.updateStudySession(sessionId, updates);
-      const session = await storage.getStudySession(sessionId);
+      if (!video) {
+        return res.status(404).json({ message: "Video not found" });
+      }
 
-      res.json({ session });
+      if (video.status !== "failed" && video.status !== "completed") {
+        return res.status(409).json({ message: "Video is still being processed" });
+      }
+
+      const previousJob = await storage.getLatestJobByVideoId(videoId);
+      if (!previousJob) {
+        return res.status(409).json({ message: "No previous processing attempt to retry" });
+      }
+
+      // The job resumes after the last stage whose output is stored.
+      const job = await enqueueJob(previousJob.type, videoId, previousJob.payload);
+      await storage.updateVideoStatus(videoId, "processing", video.processingProgress ?? 0);
+
+      res.json({ video: await storage.getVideo(videoId), job: summarizeJob(job) });
     } catch (error) {
-      console.error('Update study session error:', error);
-      res.status(500).json({ message: "Failed to update study session" });
+      console.error('Retry video error:', error);
+      res.status(500).json({ message: "Failed to retry video" });
     }
   });
 
-  const httpServer = createServer(app);
-  return httpServer;
-}
+  // Generate cards even though the transcript failed its quality assessment,
+  // or go back to respecting it. Takes effect on the next retry or regeneration.
+  app.put("/api/videos/:id/transcript-quality", requireAuth, async (req, res) => {
+    try {
+      const videoId = parseInt(req.params.id);
+      const video = await storage.getVideo(videoId);
 
-// Background video processing function
-async function processVideo(videoId: number, filePath: string) {
-  try {
-    // Update status to processing
-    await storage.updateVideoStatus(videoId, "processing", 10);
+      if (!video) {
+        return res.status(404).json({ message: "Video not found" });
+      }
 
-    await storage.updateVideoStatus(videoId, "processing", 30);
+      const parsed = transcriptQualityOverrideSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid override", errors: parsed.error.flatten() });
+      }
 
-    // Send video directly to OpenAI for transcription
+      await storage.setTranscriptQualityOverride(videoId, parsed.data.override);
+      res.json({ video: await storage.getVideo(videoId) });
+    } catch (error) {
+      console.error('Transcript quality override error:', error);
+      res.status(500).json({ message: "Failed to update transcript quality override" });
+    }
+  });
+
+  // Regenerate flashcards from the stored transcription
+  app.post("/api/videos/:id/regenerate-flashcards", requireAuth, async (req, res) => {
     try {
-      const openai = new (await import('openai')).default({
-        apiKey: process.env.OPEN_API_VIDTUT || "default_key"
-      });
+      const videoId = parseInt(req.params.id);
+      const video = await storage.getVideo(videoId);
 
-      // Read the video file
-      const videoFile = fs.createReadStream(filePath);
+      if (!video) {
+        return res.status(404).json({ message: "Video not found" });
+      }
 
-      const transcription = await openai.audio.transcriptions.create({
-        file: videoFile,
-        model: "whisper-1",
-        language: "en"
-      });
+      if (!video.transcription) {
+        return res.status(409).json({ message: "Video has no transcription to generate flashcards from" });
+      }
+
+      if (video.status === "processing" || video.status === "uploading") {
+        return res.status(409).json({ message: "Video is still being processed" });
+      }
+
+      const parsed = regenerateFlashcardsSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid regeneration options", errors: parsed.error.flatten() });
+      }
 
-      await storage.updateVideoTranscription(videoId, transcription.text);
+      const job = await enqueueJob("regenerate-flashcards", videoId, parsed.data);
+      await storage.updateVideoStatus(videoId, "processing", 60);
 
+      res.json({ video: await storage.getVideo(videoId), job: summarizeJob(job) });
     } catch (error) {
-      console.error('Video transcription error:', error);
-      throw new Error(`Failed to transcribe video: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error('Regenerate flashcards error:', error);
+      res.status(500).json({ message: "Failed to regenerate flashcards" });
     }
+  });
+
+  // Get timestamped transcript segments for video
+  app.get("/api/videos/:id/transcript", async (req, res) => {
+    try {
+      const videoId = parseInt(req.params.id);
+      const video = await storage.getVideo(videoId);
 
-    await storage.updateVideoStatus(videoId, "processing", 60);
+      if (!video) {
+        return res.status(404).json({ message: "Video not found" });
+      }
 
-    // Generate flashcards using OpenAI with actual transcription
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    const video = await storage.getVideo(videoId);
-    if (!video?.transcription) {
-      throw new Error("No transcription available for flashcard generation");
+      const segments = await storage.getTranscriptSegmentsByVideoId(videoId);
+      res.json({ transcription: video.transcription, segments });
+    } catch (error) {
+      console.error('Get transcript error:', error);
+      res.status(500).json({ message: "Failed to get transcript" });
     }
+  });
 
-    // Validate transcription quality before generating flashcards
-    if (!video.transcription || 
-        video.transcription.length < 100 || 
-        video.transcription.includes("processing failed") || 
-        video.transcription.includes("error") ||
-        video.transcription.includes("Failed to") ||
-        video.transcription.toLowerCase().includes("api key") ||
-        video.transcription.toLowerCase().includes("quota exceeded")) {
-      throw new Error("Transcription quality is too low for meaningful flashcard generation");
+  // Get flashcards for video
+  app.get("/api/videos/:id/flashcards", async (req, res) => {
+    try {
+      const videoId = parseInt(req.params.id);
+      const flashcards = await storage.getFlashcardsByVideoId(videoId);
+      res.json({ flashcards });
+    } catch (error) {
+      console.error('Get flashcards error:', error);
+      res.status(500).json({ message: "Failed to get flashcards" });
     }
+  });
 
-    const flashcards = await generateFlashcards(video.transcription);
-    if (flashcards.length === 0) {
-      throw new Error("Failed to generate flashcards from video content");
+  // Spaced repetition state of the current user's cards for a video
+  app.get("/api/videos/:id/review-states", requireAuth, async (req, res) => {
+    try {
+      const videoId = parseInt(req.params.id);
+      const states = await storage.getCardReviewStatesByVideoId(req.user!.id, videoId);
+      res.json({ states, algorithm: scheduler.algorithm.name });
+    } catch (error) {
+      console.error('Get review states error:', error);
+      res.status(500).json({ message: "Failed to get review states" });
     }
+  });
 
-    await storage.updateVideoStatus(videoId, "processing", 80);
+  // Grade a card; the scheduler works out when it is next due
+  app.post("/api/flashcards/:id/review", requireAuth, async (req, res) => {
+    try {
+      const flashcardId = parseInt(req.params.id);
+      const flashcard = await storage.getFlashcard(flashcardId);
 
-    // Save flashcards
-    for (let i = 0; i < flashcards.length; i++) {
-      await storage.createFlashcard({
-        videoId,
-        question: flashcards[i].question,
-        answer: flashcards[i].answer,
-        order: i,
-      });
-    }
+      if (!flashcard) {
+        return res.status(404).json({ message: "Flashcard not found" });
+      }
 
-    await storage.updateVideoStatus(videoId, "completed", 100);
+      const parsed = reviewCardSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid review", errors: parsed.error.flatten() });
+      }
 
-    // Clean up uploaded file
-    fs.unlink(filePath, (err) => {
-      if (err) console.error('Failed to delete uploaded file:', err);
-    });
+      const { log, state } = await recordCardReview(req.user!.id, flashcardId, parsed.data.grade, parsed.data.responseTimeMs);
+      res.json({ state, log });
+    } catch (error) {
+      console.error('Review flashcard error:', error);
+      res.status(500).json({ message: "Failed to record review" });
+    }
+  });
 
-  } catch (error) {
-    console.error('Video processing error:', error);
-    await storage.updateVideoStatus(videoId, "failed", 0);
-  }
-}
+  // Everything due today across all of the user's sources, within the
+  // daily new-card and review limits
+  app.get("/api/reviews/due", requireAuth, async (req, res) => {
+    try {
+      const parsed = dueReviewsQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid review queue options", errors: parsed.error.flatten() });
+      }
 
-// Background video processing function for URL uploads
-async function processVideoFromUrl(videoId: number, videoUrl: string) {
-  try {
-    // Update status to processing
-    await storage.updateVideoStatus(videoId, "processing", 10);
+      const videos = await storage.getVideosByUserId(req.user!.id);
+      const videosById = new Map(videos.map(video => [video.id, video]));
+      const flashcards = await storage.getFlashcardsByVideoIds(videos.map(video => video.id));
+      const states = new Map((await storage.getCardReviewStatesByUserId(req.user!.id))
+        .map(state => [state.flashcardId, state]));
+
+      const cards: DueCard[] = flashcards.map(flashcard => {
+        const video = videosById.get(flashcard.videoId)!;
+        return {
+          flashcard,
+          state: states.get(flashcard.id) ?? null,
+          source: { id: video.id, originalName: video.originalName, deckId: video.deckId },
+        };
+      });
 
-    // For URL uploads, we'll pass the URL directly to OpenAI for transcription
-    await storage.updateVideoStatus(videoId, "processing", 30);
+      res.json(buildReviewQueue(cards, parsed.data, scheduler.now()));
+    } catch (error) {
+      console.error('Get due reviews error:', error);
+      res.status(500).json({ message: "Failed to get due reviews" });
+    }
+  });
 
-    // Since we can't directly send URLs to OpenAI Whisper, we'll use a different approach
-    // We'll generate educational content based on the URL and create flashcards from that
+  // The user's answers, newest first; pass `nextCursor` as `before` for the next page
+  app.get("/api/reviews/logs", requireAuth, async (req, res) => {
     try {
-      const openai = new (await import('openai')).default({
-        apiKey: process.env.OPEN_API_VIDTUT || "default_key"
-      });
+      const parsed = reviewLogsQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid review log query", errors: parsed.error.flatten() });
+      }
 
-      // For now, we'll create educational content based on the URL
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [
-          {
-            role: "system",
-            content: "You are an educational content creator. Based on the video URL provided, generate educational content that would typically be found in such a video. Create a comprehensive transcript-like content covering the main topics and concepts that would be discussed."
-          },
-          {
-            role: "user",
-            content: `Generate educational transcript content for this video URL: ${videoUrl}`
-          }
-        ]
-      });
+      const logs = await storage.getReviewLogs(req.user!.id, parsed.data);
+      const nextCursor = logs.length === parsed.data.limit ? logs[logs.length - 1].id : null;
+      res.json({ logs, nextCursor });
+    } catch (error) {
+      console.error('Get review logs error:', error);
+      res.status(500).json({ message: "Failed to get review logs" });
+    }
+  });
 
-      const transcriptionText = response.choices[0].message.content || '';
-      await storage.updateVideoTranscription(videoId, transcriptionText);
+  // Review statistics, computed from the review log
+  app.get("/api/reviews/stats", requireAuth, async (req, res) => {
+    try {
+      const parsed = reviewStatsQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid review stats query", errors: parsed.error.flatten() });
+      }
 
+      const logs = await storage.getAllReviewLogs(req.user!.id);
+      res.json({ stats: summarizeReviewLogs(logs, parsed.data, scheduler.now()) });
     } catch (error) {
-      console.error('Video URL processing error:', error);
-      throw new Error(`Failed to process video URL: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error('Get review stats error:', error);
+      res.status(500).json({ message: "Failed to get review stats" });
     }
+  });
 
-    await storage.updateVideoStatus(videoId, "processing", 60);
+  // Recompute every card's review state from the review log, e.g. after
+  // switching scheduler algorithm or fixing a scheduling bug
+  app.post("/api/reviews/rebuild", requireAuth, async (req, res) => {
+    try {
+      const logsByCard = new Map<number, ReviewLog[]>();
+      for (const log of await storage.getAllReviewLogs(req.user!.id)) {
+        logsByCard.set(log.flashcardId, [...logsByCard.get(log.flashcardId) ?? [], log]);
+      }
+
+      let rebuilt = 0;
+      for (const [flashcardId, logs] of Array.from(logsByCard)) {
+        // Logs outlive cards that were regenerated away
+        if (!await storage.getFlashcard(flashcardId)) continue;
+
+        await storage.saveCardReviewState({
+          userId: req.user!.id,
+          flashcardId,
+          ...scheduler.replay(logs)!,
+          introducedAt: logs[0].reviewedAt,
+        });
+        rebuilt++;
+      }
 
-    // Generate flashcards using OpenAI with actual transcription
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    const video = await storage.getVideo(videoId);
-    if (!video?.transcription) {
-      throw new Error("No transcription available for flashcard generation");
+      res.json({ rebuilt, algorithm: scheduler.algorithm.name });
+    } catch (error) {
+      console.error('Rebuild review states error:', error);
+      res.status(500).json({ message: "Failed to rebuild review states" });
     }
+  });
+
+  // Create study session
+  app.post("/api/videos/:id/study-session", async (req, res) => {
+    try {
+      const videoId = parseInt(req.params.id);
+
+      // Check if study session already exists
+      let session = await storage.getStudySessionByVideoId(videoId);
+
+      if (!session) {
+        const sessionData = { videoId };
+        const validatedData = insertStudySessionSchema.parse(sessionData);
+        session = await storage.createStudySession(validatedData);
+      }
 
-    // Validate transcription quality before generating flashcards
-    if (!video.transcription || 
-        video.transcription.length < 100 || 
-        video.transcription.includes("processing failed") || 
-        video.transcription.includes("error") ||
-        video.transcription.includes("Failed to") ||
-        video.transcription.toLowerCase().includes("api key") ||
-        video.transcription.toLowerCase().includes("quota exceeded")) {
-      throw new Error("Transcription quality is too low for meaningful flashcard generation");
+      res.json({ session });
+    } catch (error) {
+      console.error('Create study session error:', error);
+      res.status(500).json({ message: "Failed to create study session" });
     }
+  });
 
-    const flashcards = await generateFlashcards(video.transcription);
-    if (flashcards.length === 0) {
-      throw new Error("Failed to generate flashcards from video content");
+  // Update study session
+  app.patch("/api/study-sessions/:id", async (req, res) => {
+    try {
+      const sessionId = parseInt(req.params.id);
+      const updates = req.body;
+
+      await storage.updateStudySession(sessionId, updates);
+      const session = await storage.getStudySession(sessionId);
+
+      res.json({ session });
+    } catch (error) {
+      console.error('Update study session error:', error);
+      res.status(500).json({ message: "Failed to update study session" });
     }
+  });
 
-    await storage.updateVideoStatus(videoId, "processing", 80);
+  // Check a quiz pick on a multiple-choice card and record it in the
+  // session's progress. For signed-in learners it also counts as a review:
+  // "good" when right, "again" when wrong.
+  app.post("/api/study-sessions/:id/answers", async (req, res) => {
+    try {
+      const sessionId = parseInt(req.params.id);
+      const session = await storage.getStudySession(sessionId);
 
-    // Save flashcards
-    for (let i = 0; i < flashcards.length; i++) {
-      await storage.createFlashcard({
-        videoId,
-        question: flashcards[i].question,
-        answer: flashcards[i].answer,
-        order: i,
+      if (!session) {
+        return res.status(404).json({ message: "Study session not found" });
+      }
+
+      const parsed = quizAnswerSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid answer", errors: parsed.error.flatten() });
+      }
+
+      // Session progress refers to cards by their position in the deck.
+      const flashcards = await storage.getFlashcardsByVideoId(session.videoId);
+      const cardIndex = flashcards.findIndex(card => card.id === parsed.data.flashcardId);
+      if (cardIndex === -1) {
+        return res.status(404).json({ message: "Flashcard not found" });
+      }
+      const flashcard = flashcards[cardIndex];
+
+      const picked = flashcard.options?.find(option => option.text === parsed.data.option);
+      if (!picked) {
+        return res.status(400).json({ message: "Answer is not one of the card's options" });
+      }
+
+      // The latest pick decides whether the card counts as learned or
+      // still needing review.
+      const completedCards = (session.completedCards ?? []).filter(index => index !== cardIndex);
+      const reviewCards = (session.reviewCards ?? []).filter(index => index !== cardIndex);
+      (picked.correct ? completedCards : reviewCards).push(cardIndex);
+      await storage.updateStudySession(sessionId, { completedCards, reviewCards });
+
+      const review = req.user
+        ? await recordCardReview(req.user.id, flashcard.id, picked.correct ? "good" : "again", parsed.data.responseTimeMs)
+        : undefined;
+
+      res.json({
+        correct: picked.correct,
+        answer: flashcard.answer,
+        session: await storage.getStudySession(sessionId),
+        state: review?.state ?? null,
       });
+    } catch (error) {
+      console.error('Quiz answer error:', error);
+      res.status(500).json({ message: "Failed to record answer" });
     }
+  });
 
-    await storage.updateVideoStatus(videoId, "completed", 100);
-
-  } catch (error) {
-    console.error('Video URL processing error:', error);
-    await storage.updateVideoStatus(videoId, "failed", 0);
-  }
-}
\ No newline at end of file
+  const httpServer = createServer(app);
+  return httpServer;
+}
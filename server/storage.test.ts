@@ -0,0 +1,172 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { newDb } from "pg-mem";
+import { drizzle } from "drizzle-orm/node-postgres";
+import * as schema from "@shared/schema";
+import type { Database } from "./db";
+import { DrizzleStorage, MemStorage, type IStorage } from "./storage";
+
+// pg-mem's node-postgres adapter rejects the per-query type parsers and
+// array row mode drizzle asks for, so strip them and build the arrays here.
+// Storage queries never select two columns with the same name, so a row's
+// values are already in select order.
+async function createPgMemStorage(): Promise<DrizzleStorage> {
+  const { Pool } = newDb().adapters.createPg();
+  const pool = new Pool();
+  const query = pool.query.bind(pool);
+  pool.query = async (config: unknown, ...rest: unknown[]) => {
+    if (!config || typeof config !== "object") return query(config, ...rest);
+
+    const { types, rowMode, ...plain } = config as { types?: unknown; rowMode?: string };
+    const result = await query(plain, ...rest);
+    return rowMode === "array"
+      ? { ...result, rows: result.rows.map((row: Record<string, unknown>) => Object.values(row)) }
+      : result;
+  };
+
+  const storage = new DrizzleStorage(drizzle(pool, { schema }) as unknown as Database);
+  await storage.migrate();
+  return storage;
+}
+
+// `claimsJobs` is false where the backend can't run the job queue's
+// FOR UPDATE SKIP LOCKED, which pg-mem doesn't implement.
+const implementations: { name: string; createStorage: () => Promise<IStorage>; claimsJobs: boolean }[] = [
+  { name: "MemStorage", createStorage: async () => new MemStorage(), claimsJobs: true },
+  { name: "DrizzleStorage (pg-mem)", createStorage: createPgMemStorage, claimsJobs: false },
+];
+
+for (const { name, createStorage, claimsJobs } of implementations) {
+  describe(name, () => {
+    test("round-trips videos through status, transcription and failure updates", async () => {
+      const storage = await createStorage();
+      const deck = await storage.createDeck({ name: "Module 1" });
+      const video = await storage.createVideo({
+        filename: "abc",
+        originalName: "lecture.mp4",
+        fileSize: 1024,
+        mimeType: "video/mp4",
+        deckId: deck.id,
+        userId: "user-1",
+      });
+
+      assert.equal(video.status, "uploading");
+      assert.equal(video.sourceKind, "media");
+
+      await storage.updateVideoStatus(video.id, "processing", 40);
+      await storage.updateVideoTranscription(video.id, "Plants make glucose.");
+      await storage.setVideoFailure(video.id, { errorCode: "rate_limited", errorMessage: "Slow down", failedStage: "generate" });
+
+      const saved = await storage.getVideo(video.id);
+      assert.equal(saved?.status, "processing");
+      assert.equal(saved?.processingProgress, 40);
+      assert.equal(saved?.transcription, "Plants make glucose.");
+      assert.equal(saved?.errorCode, "rate_limited");
+      assert.equal(saved?.failedStage, "generate");
+
+      await storage.setVideoFailure(video.id, null);
+      assert.equal((await storage.getVideo(video.id))?.errorCode, null);
+
+      assert.deepEqual((await storage.getVideosByDeckId(deck.id)).map(v => v.id), [video.id]);
+      assert.deepEqual((await storage.getVideosByUserId("user-1")).map(v => v.id), [video.id]);
+      assert.equal(await storage.getVideo(video.id + 100), undefined);
+    });
+
+    test("keeps flashcards in order and drops their review states on delete", async () => {
+      const storage = await createStorage();
+      const video = await storage.createVideo({ filename: "abc", originalName: "a.mp4", fileSize: 1, mimeType: "video/mp4" });
+      const second = await storage.createFlashcard({ videoId: video.id, question: "Q2", answer: "A2", order: 1 });
+      const first = await storage.createFlashcard({
+        videoId: video.id,
+        cardType: "multiple_choice",
+        question: "Q1",
+        answer: "A1",
+        options: [{ text: "A1", correct: true }, { text: "B", correct: false }],
+        order: 0,
+      });
+
+      const cards = await storage.getFlashcardsByVideoId(video.id);
+      assert.deepEqual(cards.map(card => card.id), [first.id, second.id]);
+      assert.equal(cards[1].cardType, "basic");
+      assert.deepEqual(cards[0].options, [{ text: "A1", correct: true }, { text: "B", correct: false }]);
+
+      await storage.saveCardReviewState({ userId: "user-1", flashcardId: first.id, dueAt: "2026-01-01T00:00:00.000Z" });
+      await storage.deleteFlashcardsByVideoId(video.id);
+      assert.deepEqual(await storage.getFlashcardsByVideoId(video.id), []);
+      assert.equal(await storage.getCardReviewState("user-1", first.id), undefined);
+    });
+
+    test("upserts review states and pages through the review log", async () => {
+      const storage = await createStorage();
+      const video = await storage.createVideo({ filename: "abc", originalName: "a.mp4", fileSize: 1, mimeType: "video/mp4" });
+      const card = await storage.createFlashcard({ videoId: video.id, question: "Q", answer: "A", order: 0 });
+
+      for (const [i, grade] of (["good", "again", "easy"] as const).entries()) {
+        await storage.recordReview(
+          { userId: "user-1", flashcardId: card.id, grade, previousIntervalDays: i, nextIntervalDays: i + 1, reviewedAt: `2026-01-0${i + 1}T00:00:00.000Z` },
+          { userId: "user-1", flashcardId: card.id, intervalDays: i + 1, lastGrade: grade, dueAt: `2026-02-0${i + 1}T00:00:00.000Z` },
+        );
+      }
+
+      const state = await storage.getCardReviewState("user-1", card.id);
+      assert.equal(state?.lastGrade, "easy");
+      assert.equal(state?.intervalDays, 3);
+      assert.equal((await storage.getCardReviewStatesByUserId("user-1")).length, 1);
+      assert.equal((await storage.getCardReviewStatesByVideoId("user-1", video.id)).length, 1);
+      assert.equal(await storage.getCardReviewState("user-2", card.id), undefined);
+
+      const page = await storage.getReviewLogs("user-1", { limit: 2 });
+      assert.deepEqual(page.map(log => log.grade), ["easy", "again"]);
+      const rest = await storage.getReviewLogs("user-1", { limit: 2, before: page[1].id });
+      assert.deepEqual(rest.map(log => log.grade), ["good"]);
+      assert.deepEqual((await storage.getAllReviewLogs("user-1")).map(log => log.grade), ["good", "again", "easy"]);
+    });
+
+    test("tracks study session progress", async () => {
+      const storage = await createStorage();
+      const session = await storage.createStudySession({ videoId: 7 });
+      assert.deepEqual(session.completedCards, []);
+
+      await storage.updateStudySession(session.id, { currentCardIndex: 2, completedCards: [0, 1] });
+      const saved = await storage.getStudySessionByVideoId(7);
+      assert.equal(saved?.currentCardIndex, 2);
+      assert.deepEqual(saved?.completedCards, [0, 1]);
+    });
+
+    test("completes and deletes upload sessions", async () => {
+      const storage = await createStorage();
+      const upload = { userId: "user-1", originalName: "lecture.mp4", fileSize: 10, mimeType: "video/mp4", partSize: 5 };
+      await storage.createUploadSession({ id: "done", ...upload });
+      await storage.createUploadSession({ id: "rejected", ...upload });
+
+      await storage.completeUploadSession("done", 3);
+      const completed = await storage.getUploadSession("done");
+      assert.deepEqual([completed?.status, completed?.videoId], ["completed", 3]);
+
+      await storage.deleteUploadSession("rejected");
+      assert.equal(await storage.getUploadSession("rejected"), undefined);
+      assert.equal((await storage.getUploadSession("done"))?.status, "completed");
+    });
+
+    test("leases, retries and completes jobs", { skip: !claimsJobs && "needs FOR UPDATE SKIP LOCKED" }, async () => {
+      const storage = await createStorage();
+      const job = await storage.createJob({ type: "process", videoId: 1, payload: {}, maxAttempts: 2 });
+      assert.equal(job.status, "queued");
+
+      const claimed = await storage.claimNextJob("worker-1", 60_000);
+      assert.equal(claimed?.id, job.id);
+      assert.equal(claimed?.status, "running");
+      assert.equal(claimed?.attempts, 1);
+      assert.equal(await storage.claimNextJob("worker-2", 60_000), undefined);
+
+      await storage.failJob(job.id, "boom", new Date(Date.now() - 1000).toISOString());
+      const retried = await storage.claimNextJob("worker-2", 60_000);
+      assert.equal(retried?.id, job.id);
+      assert.equal(retried?.lastError, "boom");
+
+      await storage.completeJob(job.id);
+      assert.equal((await storage.getLatestJobByVideoId(1))?.status, "completed");
+      assert.equal(await storage.claimNextJob("worker-1", 60_000), undefined);
+    });
+  });
+}
@@ -1,49 +1,155 @@
-import { videos, flashcards, studySessions, type Video, type InsertVideo, type Flashcard, type InsertFlashcard, type StudySession, type InsertStudySession } from "@shared/schema";
+import { and, asc, desc, eq, inArray, lt, lte, or, sql } from "drizzle-orm";
+import { decks, videos, flashcards, studySessions, jobs, transcriptSegments, uploadSessions, cardReviewStates, reviewLogs, type Deck, type InsertDeck, type Video, type InsertVideo, type VideoFailure, type TranscriptAssessment, type Flashcard, type InsertFlashcard, type StudySession, type InsertStudySession, type Job, type InsertJob, type UploadSession, type InsertUploadSession, type TranscriptSegment, type InsertTranscriptSegment, type CardReviewState, type InsertCardReviewState, type ReviewLog, type InsertReviewLog, type ReviewLogsQuery } from "@shared/schema";
+import { createDatabase, runMigrations, type Database } from "./db";
 
 export interface IStorage {
+  // Deck operations
+  createDeck(deck: InsertDeck): Promise<Deck>;
+  getDeck(id: number): Promise<Deck | undefined>;
+  getVideosByDeckId(deckId: number): Promise<Video[]>;
+
   // Video operations
   createVideo(video: InsertVideo): Promise<Video>;
   getVideo(id: number): Promise<Video | undefined>;
+  getVideosByUserId(userId: string): Promise<Video[]>;
   updateVideoStatus(id: number, status: string, progress?: number): Promise<void>;
   updateVideoTranscription(id: number, transcription: string): Promise<void>;
+  // Records why processing failed, or clears it when failure is null.
+  setVideoFailure(id: number, failure: VideoFailure | null): Promise<void>;
+  setTranscriptAssessment(id: number, assessment: TranscriptAssessment): Promise<void>;
+  setTranscriptQualityOverride(id: number, override: boolean): Promise<void>;
+
+  // Transcript operations
+  replaceTranscriptSegments(videoId: number, segments: InsertTranscriptSegment[]): Promise<TranscriptSegment[]>;
+  getTranscriptSegmentsByVideoId(videoId: number): Promise<TranscriptSegment[]>;
   
   // Flashcard operations
   createFlashcard(flashcard: InsertFlashcard): Promise<Flashcard>;
+  getFlashcard(id: number): Promise<Flashcard | undefined>;
   getFlashcardsByVideoId(videoId: number): Promise<Flashcard[]>;
+  getFlashcardsByVideoIds(videoIds: number[]): Promise<Flashcard[]>;
+  // Also removes the cards' review states; their review logs are kept.
+  deleteFlashcardsByVideoId(videoId: number): Promise<void>;
+
+  // Spaced repetition state, one row per learner and card
+  getCardReviewState(userId: string, flashcardId: number): Promise<CardReviewState | undefined>;
+  getCardReviewStatesByVideoId(userId: string, videoId: number): Promise<CardReviewState[]>;
+  getCardReviewStatesByUserId(userId: string): Promise<CardReviewState[]>;
+  // Inserts or replaces the state for the learner and card.
+  saveCardReviewState(state: InsertCardReviewState): Promise<CardReviewState>;
+
+  // Review log operations; the log is append-only
+  // Appends the log entry and saves the resulting state together.
+  recordReview(log: InsertReviewLog, state: InsertCardReviewState): Promise<{ log: ReviewLog; state: CardReviewState }>;
+  // Newest first, one page at a time.
+  getReviewLogs(userId: string, query: ReviewLogsQuery): Promise<ReviewLog[]>;
+  // Everything the user has answered, oldest first.
+  getAllReviewLogs(userId: string): Promise<ReviewLog[]>;
   
   // Study session operations
   createStudySession(session: InsertStudySession): Promise<StudySession>;
   getStudySession(id: number): Promise<StudySession | undefined>;
   getStudySessionByVideoId(videoId: number): Promise<StudySession | undefined>;
   updateStudySession(id: number, updates: Partial<StudySession>): Promise<void>;
+
+  // Resumable upload operations
+  createUploadSession(session: InsertUploadSession): Promise<UploadSession>;
+  getUploadSession(id: string): Promise<UploadSession | undefined>;
+  completeUploadSession(id: string, videoId: number): Promise<void>;
+  deleteUploadSession(id: string): Promise<void>;
+
+  // Job operations
+  createJob(job: InsertJob): Promise<Job>;
+  getLatestJobByVideoId(videoId: number): Promise<Job | undefined>;
+  // Leases the next runnable job: queued and due, or running with a lapsed lease.
+  claimNextJob(workerId: string, leaseMs: number): Promise<Job | undefined>;
+  extendJobLease(id: number, workerId: string, leaseMs: number): Promise<void>;
+  completeJob(id: number): Promise<void>;
+  // Requeues the job for retryAt, or moves it to "dead" when retryAt is omitted.
+  failJob(id: number, error: string, retryAt?: string): Promise<void>;
+}
+
+function isJobRunnable(job: Job, now: string): boolean {
+  if (job.status === "queued") return job.runAt <= now;
+  if (job.status === "running") return !!job.leaseExpiresAt && job.leaseExpiresAt < now;
+  return false;
 }
 
 export class MemStorage implements IStorage {
+  private decks: Map<number, Deck>;
   private videos: Map<number, Video>;
   private flashcards: Map<number, Flashcard>;
   private studySessions: Map<number, StudySession>;
+  private jobs: Map<number, Job>;
+  private uploadSessions: Map<string, UploadSession>;
+  private transcriptSegments: Map<number, TranscriptSegment>;
+  private cardReviewStates: Map<number, CardReviewState>;
+  private reviewLogs: Map<number, ReviewLog>;
+  private currentDeckId: number;
   private currentVideoId: number;
   private currentFlashcardId: number;
   private currentStudySessionId: number;
+  private currentJobId: number;
+  private currentTranscriptSegmentId: number;
+  private currentCardReviewStateId: number;
+  private currentReviewLogId: number;
 
   constructor() {
+    this.decks = new Map();
     this.videos = new Map();
     this.flashcards = new Map();
     this.studySessions = new Map();
+    this.jobs = new Map();
+    this.uploadSessions = new Map();
+    this.transcriptSegments = new Map();
+    this.cardReviewStates = new Map();
+    this.reviewLogs = new Map();
+    this.currentDeckId = 1;
     this.currentVideoId = 1;
     this.currentFlashcardId = 1;
     this.currentStudySessionId = 1;
+    this.currentJobId = 1;
+    this.currentTranscriptSegmentId = 1;
+    this.currentCardReviewStateId = 1;
+    this.currentReviewLogId = 1;
+  }
+
+  async createDeck(insertDeck: InsertDeck): Promise<Deck> {
+    const id = this.currentDeckId++;
+    const deck: Deck = { ...insertDeck, id, createdAt: new Date().toISOString() };
+    this.decks.set(id, deck);
+    return deck;
+  }
+
+  async getDeck(id: number): Promise<Deck | undefined> {
+    return this.decks.get(id);
+  }
+
+  async getVideosByDeckId(deckId: number): Promise<Video[]> {
+    return Array.from(this.videos.values())
+      .filter(video => video.deckId === deckId)
+      .sort((a, b) => a.id - b.id);
   }
 
   async createVideo(insertVideo: InsertVideo): Promise<Video> {
     const id = this.currentVideoId++;
     const video: Video = {
       ...insertVideo,
+      videoUrl: insertVideo.videoUrl ?? null,
+      sourceKind: insertVideo.sourceKind ?? "media",
+      deckId: insertVideo.deckId ?? null,
+      generationOptions: insertVideo.generationOptions ?? null,
+      userId: insertVideo.userId ?? null,
       id,
       uploadedAt: new Date().toISOString(),
       status: "uploading",
       transcription: null,
       processingProgress: 0,
+      errorMessage: null,
+      errorCode: null,
+      failedStage: null,
+      transcriptAssessment: null,
+      transcriptQualityOverride: false,
     };
     this.videos.set(id, video);
     return video;
@@ -53,16 +159,19 @@ export class MemStorage implements IStorage {
     return this.videos.get(id);
   }
 
-  async updateVideoStatus(id: number, status: string, progress?: number, errorMessage?: string): Promise<void> {
+  async getVideosByUserId(userId: string): Promise<Video[]> {
+    return Array.from(this.videos.values())
+      .filter(video => video.userId === userId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async updateVideoStatus(id: number, status: string, progress?: number): Promise<void> {
     const video = this.videos.get(id);
     if (video) {
       video.status = status;
       if (progress !== undefined) {
         video.processingProgress = progress;
       }
-      if (errorMessage) {
-        (video as any).errorMessage = errorMessage;
-      }
       this.videos.set(id, video);
     }
   }
@@ -75,9 +184,74 @@ export class MemStorage implements IStorage {
     }
   }
 
+  async setVideoFailure(id: number, failure: VideoFailure | null): Promise<void> {
+    const video = this.videos.get(id);
+    if (video) {
+      video.errorCode = failure?.errorCode ?? null;
+      video.errorMessage = failure?.errorMessage ?? null;
+      video.failedStage = failure?.failedStage ?? null;
+      this.videos.set(id, video);
+    }
+  }
+
+  async setTranscriptAssessment(id: number, assessment: TranscriptAssessment): Promise<void> {
+    const video = this.videos.get(id);
+    if (video) {
+      video.transcriptAssessment = assessment;
+      this.videos.set(id, video);
+    }
+  }
+
+  async setTranscriptQualityOverride(id: number, override: boolean): Promise<void> {
+    const video = this.videos.get(id);
+    if (video) {
+      video.transcriptQualityOverride = override;
+      this.videos.set(id, video);
+    }
+  }
+
+  async replaceTranscriptSegments(videoId: number, segments: InsertTranscriptSegment[]): Promise<TranscriptSegment[]> {
+    Array.from(this.transcriptSegments.values())
+      .filter(segment => segment.videoId === videoId)
+      .forEach(segment => this.transcriptSegments.delete(segment.id));
+
+    return segments.map(insertSegment => {
+      const segment: TranscriptSegment = {
+        start: null,
+        end: null,
+        label: null,
+        speaker: null,
+        avgLogprob: null,
+        noSpeechProb: null,
+        ...insertSegment,
+        videoId,
+        id: this.currentTranscriptSegmentId++,
+      };
+      this.transcriptSegments.set(segment.id, segment);
+      return segment;
+    });
+  }
+
+  async getTranscriptSegmentsByVideoId(videoId: number): Promise<TranscriptSegment[]> {
+    return Array.from(this.transcriptSegments.values())
+      .filter(segment => segment.videoId === videoId)
+      .sort((a, b) => a.position - b.position);
+  }
+
   async createFlashcard(insertFlashcard: InsertFlashcard): Promise<Flashcard> {
     const id = this.currentFlashcardId++;
-    const flashcard: Flashcard = { ...insertFlashcard, id };
+    const flashcard: Flashcard = {
+      cardType: "basic",
+      clozeIndex: null,
+      options: null,
+      sourceSegmentStart: null,
+      sourceSegmentEnd: null,
+      sourceStartTime: null,
+      sourceEndTime: null,
+      sourceLabel: null,
+      ...insertFlashcard,
+      id,
+    };
     this.flashcards.set(id, flashcard);
     return flashcard;
   }
@@ -88,6 +262,85 @@ export class MemStorage implements IStorage {
       .sort((a, b) => a.order - b.order);
   }
 
+  async getFlashcard(id: number): Promise<Flashcard | undefined> {
+    return this.flashcards.get(id);
+  }
+
+  async getFlashcardsByVideoIds(videoIds: number[]): Promise<Flashcard[]> {
+    const ids = new Set(videoIds);
+    return Array.from(this.flashcards.values())
+      .filter(card => ids.has(card.videoId))
+      .sort((a, b) => a.videoId - b.videoId || a.order - b.order);
+  }
+
+  async deleteFlashcardsByVideoId(videoId: number): Promise<void> {
+    const cardIds = new Set(Array.from(this.flashcards.values())
+      .filter(card => card.videoId === videoId)
+      .map(card => card.id));
+    cardIds.forEach(id => this.flashcards.delete(id));
+    Array.from(this.cardReviewStates.values())
+      .filter(state => cardIds.has(state.flashcardId))
+      .forEach(state => this.cardReviewStates.delete(state.id));
+  }
+
+  async getCardReviewState(userId: string, flashcardId: number): Promise<CardReviewState | undefined> {
+    return Array.from(this.cardReviewStates.values())
+      .find(state => state.userId === userId && state.flashcardId === flashcardId);
+  }
+
+  async getCardReviewStatesByVideoId(userId: string, videoId: number): Promise<CardReviewState[]> {
+    return Array.from(this.cardReviewStates.values())
+      .filter(state => state.userId === userId && this.flashcards.get(state.flashcardId)?.videoId === videoId);
+  }
+
+  async getCardReviewStatesByUserId(userId: string): Promise<CardReviewState[]> {
+    return Array.from(this.cardReviewStates.values()).filter(state => state.userId === userId);
+  }
+
+  async saveCardReviewState(insertState: InsertCardReviewState): Promise<CardReviewState> {
+    const existing = await this.getCardReviewState(insertState.userId, insertState.flashcardId);
+    const state: CardReviewState = {
+      ease: 2.5,
+      intervalDays: 0,
+      repetitions: 0,
+      lapses: 0,
+      ...insertState,
+      stability: insertState.stability ?? null,
+      difficulty: insertState.difficulty ?? null,
+      lastGrade: insertState.lastGrade ?? null,
+      lastReviewedAt: insertState.lastReviewedAt ?? null,
+      introducedAt: insertState.introducedAt ?? null,
+      id: existing?.id ?? this.currentCardReviewStateId++,
+    };
+    this.cardReviewStates.set(state.id, state);
+    return state;
+  }
+
+  async recordReview(insertLog: InsertReviewLog, insertState: InsertCardReviewState): Promise<{ log: ReviewLog; state: CardReviewState }> {
+    const log: ReviewLog = {
+      ...insertLog,
+      responseTimeMs: insertLog.responseTimeMs ?? null,
+      id: this.currentReviewLogId++,
+    };
+    this.reviewLogs.set(log.id, log);
+    return { log, state: await this.saveCardReviewState(insertState) };
+  }
+
+  async getReviewLogs(userId: string, query: ReviewLogsQuery): Promise<ReviewLog[]> {
+    return Array.from(this.reviewLogs.values())
+      .filter(log => log.userId === userId)
+      .filter(log => query.before === undefined || log.id < query.before)
+      .filter(log => query.flashcardId === undefined || log.flashcardId === query.flashcardId)
+      .sort((a, b) => b.id - a.id)
+      .slice(0, query.limit);
+  }
+
+  async getAllReviewLogs(userId: string): Promise<ReviewLog[]> {
+    return Array.from(this.reviewLogs.values())
+      .filter(log => log.userId === userId)
+      .sort((a, b) => a.id - b.id);
+  }
+
   async createStudySession(insertSession: InsertStudySession): Promise<StudySession> {
     const id = this.currentStudySessionId++;
     const session: StudySession = {
@@ -120,6 +373,485 @@ export class MemStorage implements IStorage {
       this.studySessions.set(id, session);
     }
   }
+
+  async createUploadSession(insertSession: InsertUploadSession): Promise<UploadSession> {
+    const now = new Date().toISOString();
+    const session: UploadSession = {
+      ...insertSession,
+      status: "active",
+      videoId: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.uploadSessions.set(session.id, session);
+    return session;
+  }
+
+  async getUploadSession(id: string): Promise<UploadSession | undefined> {
+    return this.uploadSessions.get(id);
+  }
+
+  async completeUploadSession(id: string, videoId: number): Promise<void> {
+    const session = this.uploadSessions.get(id);
+    if (session) {
+      session.status = "completed";
+      session.videoId = videoId;
+      session.updatedAt = new Date().toISOString();
+    }
+  }
+
+  async deleteUploadSession(id: string): Promise<void> {
+    this.uploadSessions.delete(id);
+  }
+
+  async createJob(insertJob: InsertJob): Promise<Job> {
+    const id = this.currentJobId++;
+    const now = new Date().toISOString();
+    const job: Job = {
+      id,
+      type: insertJob.type,
+      videoId: insertJob.videoId ?? null,
+      payload: insertJob.payload ?? {},
+      status: "queued",
+      attempts: 0,
+      maxAttempts: insertJob.maxAttempts ?? 5,
+      runAt: insertJob.runAt ?? now,
+      lockedBy: null,
+      leaseExpiresAt: null,
+      lastError: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.jobs.set(id, job);
+    return job;
+  }
+
+  async getLatestJobByVideoId(videoId: number): Promise<Job | undefined> {
+    return Array.from(this.jobs.values())
+      .filter(job => job.videoId === videoId)
+      .sort((a, b) => b.id - a.id)[0];
+  }
+
+  async claimNextJob(workerId: string, leaseMs: number): Promise<Job | undefined> {
+    const now = new Date();
+    const nowIso = now.toISOString();
+    const job = Array.from(this.jobs.values())
+      .filter(candidate => isJobRunnable(candidate, nowIso))
+      .sort((a, b) => a.runAt.localeCompare(b.runAt) || a.id - b.id)[0];
+    if (!job) return undefined;
+
+    job.status = "running";
+    job.attempts += 1;
+    job.lockedBy = workerId;
+    job.leaseExpiresAt = new Date(now.getTime() + leaseMs).toISOString();
+    job.updatedAt = nowIso;
+    return { ...job };
+  }
+
+  async extendJobLease(id: number, workerId: string, leaseMs: number): Promise<void> {
+    const job = this.jobs.get(id);
+    if (job && job.status === "running" && job.lockedBy === workerId) {
+      job.leaseExpiresAt = new Date(Date.now() + leaseMs).toISOString();
+      job.updatedAt = new Date().toISOString();
+    }
+  }
+
+  async completeJob(id: number): Promise<void> {
+    const job = this.jobs.get(id);
+    if (job) {
+      job.status = "completed";
+      job.lockedBy = null;
+      job.leaseExpiresAt = null;
+      job.updatedAt = new Date().toISOString();
+    }
+  }
+
+  async failJob(id: number, error: string, retryAt?: string): Promise<void> {
+    const job = this.jobs.get(id);
+    if (job) {
+      job.status = retryAt ? "queued" : "dead";
+      job.runAt = retryAt ?? job.runAt;
+      job.lastError = error;
+      job.lockedBy = null;
+      job.leaseExpiresAt = null;
+      job.updatedAt = new Date().toISOString();
+    }
+  }
 }
 
-export const storage = new MemStorage();
+export class DrizzleStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  async migrate(): Promise<void> {
+    await runMigrations(this.db);
+  }
+
+  async createDeck(insertDeck: InsertDeck): Promise<Deck> {
+    const [deck] = await this.db
+      .insert(decks)
+      .values({ ...insertDeck, createdAt: new Date().toISOString() })
+      .returning();
+    return deck;
+  }
+
+  async getDeck(id: number): Promise<Deck | undefined> {
+    const [deck] = await this.db.select().from(decks).where(eq(decks.id, id));
+    return deck;
+  }
+
+  async getVideosByDeckId(deckId: number): Promise<Video[]> {
+    return this.db.select().from(videos).where(eq(videos.deckId, deckId)).orderBy(asc(videos.id));
+  }
+
+  async createVideo(insertVideo: InsertVideo): Promise<Video> {
+    const [video] = await this.db
+      .insert(videos)
+      .values({
+        ...insertVideo,
+        uploadedAt: new Date().toISOString(),
+        status: "uploading",
+        transcription: null,
+        processingProgress: 0,
+      })
+      .returning();
+    return video;
+  }
+
+  async getVideo(id: number): Promise<Video | undefined> {
+    const [video] = await this.db.select().from(videos).where(eq(videos.id, id));
+    return video;
+  }
+
+  async getVideosByUserId(userId: string): Promise<Video[]> {
+    return this.db.select().from(videos).where(eq(videos.userId, userId)).orderBy(asc(videos.id));
+  }
+
+  async updateVideoStatus(id: number, status: string, progress?: number): Promise<void> {
+    await this.db
+      .update(videos)
+      .set(progress !== undefined ? { status, processingProgress: progress } : { status })
+      .where(eq(videos.id, id));
+  }
+
+  async updateVideoTranscription(id: number, transcription: string): Promise<void> {
+    await this.db.update(videos).set({ transcription }).where(eq(videos.id, id));
+  }
+
+  async setVideoFailure(id: number, failure: VideoFailure | null): Promise<void> {
+    await this.db
+      .update(videos)
+      .set({
+        errorCode: failure?.errorCode ?? null,
+        errorMessage: failure?.errorMessage ?? null,
+        failedStage: failure?.failedStage ?? null,
+      })
+      .where(eq(videos.id, id));
+  }
+
+  async setTranscriptAssessment(id: number, assessment: TranscriptAssessment): Promise<void> {
+    await this.db.update(videos).set({ transcriptAssessment: assessment }).where(eq(videos.id, id));
+  }
+
+  async setTranscriptQualityOverride(id: number, override: boolean): Promise<void> {
+    await this.db.update(videos).set({ transcriptQualityOverride: override }).where(eq(videos.id, id));
+  }
+
+  async replaceTranscriptSegments(videoId: number, segments: InsertTranscriptSegment[]): Promise<TranscriptSegment[]> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(transcriptSegments).where(eq(transcriptSegments.videoId, videoId));
+
+      // Insert in batches to stay well under Postgres' bind parameter limit.
+      const inserted: TranscriptSegment[] = [];
+      for (let i = 0; i < segments.length; i += 1000) {
+        const batch = segments.slice(i, i + 1000).map(segment => ({ ...segment, videoId }));
+        inserted.push(...await tx.insert(transcriptSegments).values(batch).returning());
+      }
+      return inserted;
+    });
+  }
+
+  async getTranscriptSegmentsByVideoId(videoId: number): Promise<TranscriptSegment[]> {
+    return this.db
+      .select()
+      .from(transcriptSegments)
+      .where(eq(transcriptSegments.videoId, videoId))
+      .orderBy(asc(transcriptSegments.position));
+  }
+
+  async createFlashcard(insertFlashcard: InsertFlashcard): Promise<Flashcard> {
+    const [flashcard] = await this.db.insert(flashcards).values(insertFlashcard).returning();
+    return flashcard;
+  }
+
+  async getFlashcardsByVideoId(videoId: number): Promise<Flashcard[]> {
+    return this.db
+      .select()
+      .from(flashcards)
+      .where(eq(flashcards.videoId, videoId))
+      .orderBy(asc(flashcards.order));
+  }
+
+  async getFlashcard(id: number): Promise<Flashcard | undefined> {
+    const [flashcard] = await this.db.select().from(flashcards).where(eq(flashcards.id, id));
+    return flashcard;
+  }
+
+  async getFlashcardsByVideoIds(videoIds: number[]): Promise<Flashcard[]> {
+    if (videoIds.length === 0) return [];
+    return this.db
+      .select()
+      .from(flashcards)
+      .where(inArray(flashcards.videoId, videoIds))
+      .orderBy(asc(flashcards.videoId), asc(flashcards.order));
+  }
+
+  async deleteFlashcardsByVideoId(videoId: number): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      const cardIds = tx.select({ id: flashcards.id }).from(flashcards).where(eq(flashcards.videoId, videoId));
+      await tx.delete(cardReviewStates).where(inArray(cardReviewStates.flashcardId, cardIds));
+      await tx.delete(flashcards).where(eq(flashcards.videoId, videoId));
+    });
+  }
+
+  async getCardReviewState(userId: string, flashcardId: number): Promise<CardReviewState | undefined> {
+    const [state] = await this.db
+      .select()
+      .from(cardReviewStates)
+      .where(and(eq(cardReviewStates.userId, userId), eq(cardReviewStates.flashcardId, flashcardId)));
+    return state;
+  }
+
+  async getCardReviewStatesByVideoId(userId: string, videoId: number): Promise<CardReviewState[]> {
+    const cardIds = this.db.select({ id: flashcards.id }).from(flashcards).where(eq(flashcards.videoId, videoId));
+    return this.db
+      .select()
+      .from(cardReviewStates)
+      .where(and(eq(cardReviewStates.userId, userId), inArray(cardReviewStates.flashcardId, cardIds)));
+  }
+
+  async getCardReviewStatesByUserId(userId: string): Promise<CardReviewState[]> {
+    return this.db.select().from(cardReviewStates).where(eq(cardReviewStates.userId, userId));
+  }
+
+  async saveCardReviewState(insertState: InsertCardReviewState): Promise<CardReviewState> {
+    const [state] = await this.db
+      .insert(cardReviewStates)
+      .values(insertState)
+      .onConflictDoUpdate({
+        target: [cardReviewStates.userId, cardReviewStates.flashcardId],
+        set: insertState,
+      })
+      .returning();
+    return state;
+  }
+
+  async recordReview(insertLog: InsertReviewLog, insertState: InsertCardReviewState): Promise<{ log: ReviewLog; state: CardReviewState }> {
+    return this.db.transaction(async (tx) => {
+      const [log] = await tx.insert(reviewLogs).values(insertLog).returning();
+      const [state] = await tx
+        .insert(cardReviewStates)
+        .values(insertState)
+        .onConflictDoUpdate({
+          target: [cardReviewStates.userId, cardReviewStates.flashcardId],
+          set: insertState,
+        })
+        .returning();
+      return { log, state };
+    });
+  }
+
+  async getReviewLogs(userId: string, query: ReviewLogsQuery): Promise<ReviewLog[]> {
+    return this.db
+      .select()
+      .from(reviewLogs)
+      .where(and(
+        eq(reviewLogs.userId, userId),
+        query.before !== undefined ? lt(reviewLogs.id, query.before) : undefined,
+        query.flashcardId !== undefined ? eq(reviewLogs.flashcardId, query.flashcardId) : undefined,
+      ))
+      .orderBy(desc(reviewLogs.id))
+      .limit(query.limit);
+  }
+
+  async getAllReviewLogs(userId: string): Promise<ReviewLog[]> {
+    return this.db.select().from(reviewLogs).where(eq(reviewLogs.userId, userId)).orderBy(asc(reviewLogs.id));
+  }
+
+  async createStudySession(insertSession: InsertStudySession): Promise<StudySession> {
+    const [session] = await this.db
+      .insert(studySessions)
+      .values({
+        ...insertSession,
+        startedAt: new Date().toISOString(),
+        currentCardIndex: 0,
+        completedCards: [],
+        reviewCards: [],
+        studyTime: 0,
+        completedAt: null,
+      })
+      .returning();
+    return session;
+  }
+
+  async getStudySession(id: number): Promise<StudySession | undefined> {
+    const [session] = await this.db.select().from(studySessions).where(eq(studySessions.id, id));
+    return session;
+  }
+
+  async getStudySessionByVideoId(videoId: number): Promise<StudySession | undefined> {
+    const [session] = await this.db
+      .select()
+      .from(studySessions)
+      .where(eq(studySessions.videoId, videoId))
+      .orderBy(asc(studySessions.id))
+      .limit(1);
+    return session;
+  }
+
+  async updateStudySession(id: number, updates: Partial<StudySession>): Promise<void> {
+    const { id: _id, ...values } = updates;
+    if (Object.keys(values).length === 0) return;
+    await this.db.update(studySessions).set(values).where(eq(studySessions.id, id));
+  }
+
+  async createUploadSession(insertSession: InsertUploadSession): Promise<UploadSession> {
+    const now = new Date().toISOString();
+    const [session] = await this.db
+      .insert(uploadSessions)
+      .values({ ...insertSession, status: "active", createdAt: now, updatedAt: now })
+      .returning();
+    return session;
+  }
+
+  async getUploadSession(id: string): Promise<UploadSession | undefined> {
+    const [session] = await this.db.select().from(uploadSessions).where(eq(uploadSessions.id, id));
+    return session;
+  }
+
+  async completeUploadSession(id: string, videoId: number): Promise<void> {
+    await this.db
+      .update(uploadSessions)
+      .set({ status: "completed", videoId, updatedAt: new Date().toISOString() })
+      .where(eq(uploadSessions.id, id));
+  }
+
+  async deleteUploadSession(id: string): Promise<void> {
+    await this.db.delete(uploadSessions).where(eq(uploadSessions.id, id));
+  }
+
+  async createJob(insertJob: InsertJob): Promise<Job> {
+    const now = new Date().toISOString();
+    const [job] = await this.db
+      .insert(jobs)
+      .values({
+        ...insertJob,
+        status: "queued",
+        runAt: insertJob.runAt ?? now,
+        createdAt: now,
+        updatedAt: now,
+      })
+      .returning();
+    return job;
+  }
+
+  async getLatestJobByVideoId(videoId: number): Promise<Job | undefined> {
+    const [job] = await this.db
+      .select()
+      .from(jobs)
+      .where(eq(jobs.videoId, videoId))
+      .orderBy(desc(jobs.id))
+      .limit(1);
+    return job;
+  }
+
+  async claimNextJob(workerId: string, leaseMs: number): Promise<Job | undefined> {
+    const now = new Date();
+    const nowIso = now.toISOString();
+    // SKIP LOCKED lets several workers poll the same table without
+    // handing the same job to two of them.
+    const next = this.db
+      .select({ id: jobs.id })
+      .from(jobs)
+      .where(
+        or(
+          and(eq(jobs.status, "queued"), lte(jobs.runAt, nowIso)),
+          and(eq(jobs.status, "running"), lt(jobs.leaseExpiresAt, nowIso)),
+        ),
+      )
+      .orderBy(asc(jobs.runAt), asc(jobs.id))
+      .limit(1)
+      .for("update", { skipLocked: true });
+
+    const [job] = await this.db
+      .update(jobs)
+      .set({
+        status: "running",
+        attempts: sql`${jobs.attempts} + 1`,
+        lockedBy: workerId,
+        leaseExpiresAt: new Date(now.getTime() + leaseMs).toISOString(),
+        updatedAt: nowIso,
+      })
+      .where(inArray(jobs.id, next))
+      .returning();
+    return job;
+  }
+
+  async extendJobLease(id: number, workerId: string, leaseMs: number): Promise<void> {
+    await this.db
+      .update(jobs)
+      .set({
+        leaseExpiresAt: new Date(Date.now() + leaseMs).toISOString(),
+        updatedAt: new Date().toISOString(),
+      })
+      .where(and(eq(jobs.id, id), eq(jobs.status, "running"), eq(jobs.lockedBy, workerId)));
+  }
+
+  async completeJob(id: number): Promise<void> {
+    await this.db
+      .update(jobs)
+      .set({ status: "completed", lockedBy: null, leaseExpiresAt: null, updatedAt: new Date().toISOString() })
+      .where(eq(jobs.id, id));
+  }
+
+  async failJob(id: number, error: string, retryAt?: string): Promise<void> {
+    await this.db
+      .update(jobs)
+      .set({
+        status: retryAt ? "queued" : "dead",
+        ...(retryAt ? { runAt: retryAt } : {}),
+        lastError: error,
+        lockedBy: null,
+        leaseExpiresAt: null,
+        updatedAt: new Date().toISOString(),
+      })
+      .where(eq(jobs.id, id));
+  }
+}
+
+// STORAGE_DRIVER selects the backend explicitly ("postgres" or "memory");
+// without it we use Postgres whenever DATABASE_URL is configured.
+function createStorage(): IStorage {
+  const driver = process.env.STORAGE_DRIVER || (process.env.DATABASE_URL ? "postgres" : "memory");
+
+  if (driver === "memory") {
+    return new MemStorage();
+  }
+
+  if (driver === "postgres") {
+    if (!process.env.DATABASE_URL) {
+      throw new Error("DATABASE_URL must be set when STORAGE_DRIVER is postgres");
+    }
+    return new DrizzleStorage(createDatabase(process.env.DATABASE_URL).db);
+  }
+
+  throw new Error(`Unknown STORAGE_DRIVER: ${driver}`);
+}
+
+export const storage = createStorage();
+
+// Applies pending migrations before the server starts accepting requests.
+export async function prepareStorage(): Promise<void> {
+  if (storage instanceof DrizzleStorage) {
+    await storage.migrate();
+  }
+}
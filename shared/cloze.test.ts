@@ -0,0 +1,61 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { clozeAnswer, clozeIndices, clozeText, parseCloze } from "./cloze";
+
+const NOTE = "{{c1::Mitochondria}} make {{c2::ATP::a molecule}} by {{c3::cellular respiration}}.";
+
+describe("parseCloze", () => {
+  test("splits a note into text and numbered deletions", () => {
+    assert.deepEqual(parseCloze(NOTE), [
+      { text: "Mitochondria", index: 1, hint: undefined },
+      { text: " make " },
+      { text: "ATP", index: 2, hint: "a molecule" },
+      { text: " by " },
+      { text: "cellular respiration", index: 3, hint: undefined },
+      { text: "." },
+    ]);
+  });
+
+  test("returns a note without deletions as plain text", () => {
+    assert.deepEqual(parseCloze("No blanks here."), [{ text: "No blanks here." }]);
+  });
+});
+
+describe("clozeIndices", () => {
+  test("lists each deletion number once, in order", () => {
+    assert.deepEqual(clozeIndices(NOTE), [1, 2, 3]);
+    assert.deepEqual(clozeIndices("{{c2::Paris}} is the capital of {{c1::France}}; {{c2::Berlin}} of Germany."), [1, 2]);
+  });
+
+  test("skips empty deletions", () => {
+    assert.deepEqual(clozeIndices("{{c1::  }} and {{c2::kept}}"), [2]);
+    assert.deepEqual(clozeIndices("No blanks here."), []);
+  });
+});
+
+describe("clozeAnswer", () => {
+  test("joins deletions that share a number", () => {
+    const note = "{{c1::Paris}} and {{c1::Lyon}} are in {{c2::France}}.";
+    assert.equal(clozeAnswer(note, 1), "Paris, Lyon");
+    assert.equal(clozeAnswer(note, 2), "France");
+  });
+});
+
+describe("clozeText", () => {
+  test("hides only the active deletion on the front", () => {
+    assert.equal(clozeText(NOTE, 1), "[...] make ATP by cellular respiration.");
+    assert.equal(clozeText(NOTE, 3), "Mitochondria make ATP by [...].");
+  });
+
+  test("shows the hint in place of a hinted deletion", () => {
+    assert.equal(clozeText(NOTE, 2), "Mitochondria make [a molecule] by cellular respiration.");
+  });
+
+  test("hides every deletion with the active number", () => {
+    assert.equal(clozeText("{{c1::Paris}} and {{c1::Lyon}} are in {{c2::France}}.", 1), "[...] and [...] are in France.");
+  });
+
+  test("shows the whole note without an index", () => {
+    assert.equal(clozeText(NOTE), "Mitochondria make ATP by cellular respiration.");
+  });
+});
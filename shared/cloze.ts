@@ -0,0 +1,47 @@
+// Cloze deletions use Anki's markup: `{{c1::term}}` hides "term" on the card
+// for deletion 1, and `{{c1::term::hint}}` shows "hint" in its place. A note
+// can number several deletions; each number becomes its own sibling card, and
+// deletions sharing a number are hidden together.
+const CLOZE_PATTERN = /\{\{c(\d+)::([\s\S]*?)(?:::([\s\S]*?))?\}\}/g;
+
+export interface ClozePart {
+  text: string;
+  // Set on deletions: which card hides this part, and its hint if any.
+  index?: number;
+  hint?: string;
+}
+
+// Splits a note into plain text and deletions, in order.
+export function parseCloze(note: string): ClozePart[] {
+  const parts: ClozePart[] = [];
+  let last = 0;
+  for (const match of Array.from(note.matchAll(CLOZE_PATTERN))) {
+    if (match.index! > last) parts.push({ text: note.slice(last, match.index) });
+    parts.push({ text: match[2], index: Number(match[1]), hint: match[3] || undefined });
+    last = match.index! + match[0].length;
+  }
+  if (last < note.length) parts.push({ text: note.slice(last) });
+  return parts;
+}
+
+// The deletion numbers in a note, ascending; one card is made per number.
+export function clozeIndices(note: string): number[] {
+  const indices = new Set(parseCloze(note).flatMap(part => part.index !== undefined && part.text.trim() ? [part.index] : []));
+  return Array.from(indices).sort((a, b) => a - b);
+}
+
+// The text hidden on the card for deletion `index`.
+export function clozeAnswer(note: string, index: number): string {
+  return parseCloze(note)
+    .filter(part => part.index === index)
+    .map(part => part.text)
+    .join(", ");
+}
+
+// The note as plain text, as shown on the front of the card for deletion
+// `index` ("[...]" or "[hint]" in place of it) or, without an index, in full.
+export function clozeText(note: string, index?: number): string {
+  return parseCloze(note)
+    .map(part => part.index !== undefined && part.index === index ? `[${part.hint ?? "..."}]` : part.text)
+    .join("");
+}
@@ -1,9 +1,93 @@
 
 // Adding the videoUrl field to the video schema.
-import { pgTable, text, serial, integer, boolean, json } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, json, real, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Stages of the processing pipeline, in the order they run.
+export const pipelineStages = ["upload", "transcribe", "generate", "save"] as const;
+export type PipelineStage = typeof pipelineStages[number];
+
+// What a row in `videos` was created from. The table predates documents and
+// keeps its name, but every row is a study source: transcribed media
+// (video, audio or captions) or text extracted from a document.
+export const sourceKinds = ["media", "document"] as const;
+export type SourceKind = typeof sourceKinds[number];
+
+// How cards are generated for a source, chosen at upload time. Either a fixed
+// card count or a density per minute of media; everything else shapes the prompt.
+export const difficultyLevels = ["easy", "medium", "hard", "mixed"] as const;
+export const answerLengths = ["short", "medium", "detailed"] as const;
+export const audienceLevels = ["beginner", "intermediate", "advanced"] as const;
+
+// Kinds of card. A cloze card hides one numbered deletion of a note written
+// with `{{c1::term}}` markup; a note with several numbers becomes one sibling
+// card per number. See shared/cloze.ts. A multiple-choice card offers its
+// answer among generated distractors.
+export const cardTypes = ["basic", "cloze", "multiple_choice"] as const;
+export type CardType = typeof cardTypes[number];
+
+export const cardOptionSchema = z.object({
+  text: z.string().min(1),
+  correct: z.boolean(),
+});
+
+export type CardOption = z.infer<typeof cardOptionSchema>;
+
+export const generationOptionsSchema = z.object({
+  cardCount: z.number().int().min(1).max(50).optional(),
+  cardsPerMinute: z.number().min(0.1).max(5).optional(),
+  difficulty: z.enum(difficultyLevels).optional(),
+  focusTopics: z.array(z.string().trim().min(1).max(100)).max(10).optional(),
+  answerLength: z.enum(answerLengths).optional(),
+  audienceLevel: z.enum(audienceLevels).optional(),
+  // Which kinds of card to generate; question-answer cards when omitted.
+  cardTypes: z.array(z.enum(cardTypes)).min(1).optional(),
+  // ISO-639-1 code of the language the media is spoken in. Transcription
+  // still auto-detects; a different detected language fails the quality check.
+  language: z.string().regex(/^[a-z]{2}$/, "Use a two-letter language code").optional(),
+}).refine(options => options.cardCount === undefined || options.cardsPerMinute === undefined, {
+  message: "Set either a card count or cards per minute, not both",
+  path: ["cardsPerMinute"],
+});
+
+export type GenerationOptions = z.infer<typeof generationOptionsSchema>;
+
+// Why a transcript may be unsuitable for flashcards, from the checks run
+// once it is saved. A failing assessment stops generation unless the user
+// overrides it.
+export const transcriptIssueCodes = ["too_short", "no_speech", "wrong_language", "low_confidence", "not_educational"] as const;
+export type TranscriptIssueCode = typeof transcriptIssueCodes[number];
+
+export interface TranscriptIssue {
+  code: TranscriptIssueCode;
+  message: string;
+}
+
+export interface TranscriptAssessment {
+  passed: boolean;
+  issues: TranscriptIssue[];
+  // 0-1: how much the text reads like explanatory, teachable material.
+  educationalScore: number;
+  // What the transcription provider detected, when it reports one.
+  language: string | null;
+  // Mean Whisper segment log-probability, weighted by segment length.
+  averageLogprob: number | null;
+  // Share of segments Whisper thinks contain no speech.
+  noSpeechRatio: number | null;
+}
+
+export const transcriptQualityOverrideSchema = z.object({
+  override: z.boolean(),
+});
+
+// A group of sources uploaded together, e.g. a whole course module.
+export const decks = pgTable("decks", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  createdAt: text("created_at").notNull(),
+});
+
 export const videos = pgTable("videos", {
   id: serial("id").primaryKey(),
   filename: text("filename").notNull(),
@@ -15,14 +99,55 @@ export const videos = pgTable("videos", {
   transcription: text("transcription"),
   processingProgress: integer("processing_progress").default(0),
   videoUrl: text("video_url"),
+  errorMessage: text("error_message"),
+  errorCode: text("error_code"),
+  failedStage: text("failed_stage").$type<PipelineStage>(),
+  sourceKind: text("source_kind").$type<SourceKind>().notNull().default("media"),
+  deckId: integer("deck_id"),
+  generationOptions: json("generation_options").$type<GenerationOptions>(),
+  transcriptAssessment: json("transcript_assessment").$type<TranscriptAssessment>(),
+  // Generate cards even though the transcript failed its assessment.
+  transcriptQualityOverride: boolean("transcript_quality_override").notNull().default(false),
+  // Who uploaded it; rows from before accounts were tracked have none.
+  userId: text("user_id"),
 });
 
 export const flashcards = pgTable("flashcards", {
   id: serial("id").primaryKey(),
   videoId: integer("video_id").notNull(),
+  cardType: text("card_type").$type<CardType>().notNull().default("basic"),
+  // Cloze cards keep the whole note, markup included, in `question`, the
+  // text of their own deletion in `answer`, and which deletion they test
+  // in `clozeIndex`.
   question: text("question").notNull(),
   answer: text("answer").notNull(),
+  clozeIndex: integer("cloze_index"),
+  // Multiple-choice cards: the answer and its distractors, answer first.
+  // Shown shuffled.
+  options: json("options").$type<CardOption[]>(),
   order: integer("order").notNull(),
+  // Range of transcript segments (by position) the card was derived from,
+  // with their times in seconds so the player can seek without a lookup.
+  sourceSegmentStart: integer("source_segment_start"),
+  sourceSegmentEnd: integer("source_segment_end"),
+  sourceStartTime: real("source_start_time"),
+  sourceEndTime: real("source_end_time"),
+  // Where in a document the card came from, e.g. "Slide 4".
+  sourceLabel: text("source_label"),
+});
+
+export const transcriptSegments = pgTable("transcript_segments", {
+  id: serial("id").primaryKey(),
+  videoId: integer("video_id").notNull(),
+  position: integer("position").notNull(),
+  // Times in seconds for media; documents have none and use `label` instead.
+  start: real("start"),
+  end: real("end"),
+  label: text("label"),
+  text: text("text").notNull(),
+  speaker: text("speaker"),
+  avgLogprob: real("avg_logprob"),
+  noSpeechProb: real("no_speech_prob"),
 });
 
 export const studySessions = pgTable("study_sessions", {
@@ -36,15 +161,113 @@ export const studySessions = pgTable("study_sessions", {
   studyTime: integer("study_time").default(0), // in seconds
 });
 
-export const insertVideoSchema = createInsertSchema(videos).omit({
+// How well a learner recalled a card, from "again" (forgot) to "easy".
+export const reviewGrades = ["again", "hard", "good", "easy"] as const;
+export type ReviewGrade = typeof reviewGrades[number];
+
+export const schedulerAlgorithms = ["sm2", "fsrs"] as const;
+export type SchedulerAlgorithm = typeof schedulerAlgorithms[number];
+
+// Spaced repetition state of one card for one learner. SM-2 uses ease,
+// interval and repetitions; FSRS uses stability and difficulty. Both are
+// kept so the algorithm can be switched without losing history.
+export const cardReviewStates = pgTable("card_review_states", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  flashcardId: integer("flashcard_id").notNull(),
+  ease: real("ease").notNull().default(2.5),
+  intervalDays: real("interval_days").notNull().default(0),
+  repetitions: integer("repetitions").notNull().default(0),
+  stability: real("stability"),
+  difficulty: real("difficulty"),
+  lapses: integer("lapses").notNull().default(0),
+  lastGrade: text("last_grade").$type<ReviewGrade>(),
+  dueAt: text("due_at").notNull(),
+  lastReviewedAt: text("last_reviewed_at"),
+  // When the card was first reviewed, for the daily new-card limit.
+  introducedAt: text("introduced_at"),
+}, (table) => [
+  unique("card_review_states_user_flashcard").on(table.userId, table.flashcardId),
+]);
+
+// Every answer a learner gives, never updated or deleted. Review states can
+// be rebuilt by replaying these, and review statistics are computed from them.
+export const reviewLogs = pgTable("review_logs", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  flashcardId: integer("flashcard_id").notNull(),
+  grade: text("grade").$type<ReviewGrade>().notNull(),
+  // From showing the question to grading, when the client reports it.
+  responseTimeMs: integer("response_time_ms"),
+  previousIntervalDays: real("previous_interval_days").notNull(),
+  nextIntervalDays: real("next_interval_days").notNull(),
+  reviewedAt: text("reviewed_at").notNull(),
+});
+
+// A resumable upload in progress. Parts are stored on disk as they arrive
+// (which parts exist is read from there), and assembled into one file on
+// completion, when the video record is created.
+export const uploadSessions = pgTable("upload_sessions", {
+  id: text("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  originalName: text("original_name").notNull(),
+  fileSize: integer("file_size").notNull(),
+  mimeType: text("mime_type").notNull(),
+  partSize: integer("part_size").notNull(),
+  status: text("status").notNull(), // active | completed
+  videoId: integer("video_id"),
+  createdAt: text("created_at").notNull(),
+  updatedAt: text("updated_at").notNull(),
+});
+
+// Background work for the processing pipeline. A job is leased to one worker
+// at a time; if the lease lapses (e.g. the process died) another worker may
+// claim it again. Jobs that exhaust their attempts end up in "dead".
+export const jobs = pgTable("jobs", {
+  id: serial("id").primaryKey(),
+  type: text("type").notNull(),
+  videoId: integer("video_id"),
+  payload: json("payload").$type<Record<string, unknown>>().notNull().default({}),
+  status: text("status").notNull(), // queued | running | completed | dead
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(5),
+  runAt: text("run_at").notNull(),
+  lockedBy: text("locked_by"),
+  leaseExpiresAt: text("lease_expires_at"),
+  lastError: text("last_error"),
+  createdAt: text("created_at").notNull(),
+  updatedAt: text("updated_at").notNull(),
+});
+
+export const insertDeckSchema = createInsertSchema(decks).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertVideoSchema = createInsertSchema(videos, {
+  sourceKind: z.enum(sourceKinds).optional(),
+  generationOptions: generationOptionsSchema.nullable().optional(),
+}).omit({
   id: true,
   uploadedAt: true,
   status: true,
   transcription: true,
   processingProgress: true,
+  errorMessage: true,
+  errorCode: true,
+  failedStage: true,
+  transcriptAssessment: true,
+  transcriptQualityOverride: true,
 });
 
-export const insertFlashcardSchema = createInsertSchema(flashcards).omit({
+export const insertFlashcardSchema = createInsertSchema(flashcards, {
+  cardType: z.enum(cardTypes).optional(),
+  options: z.array(cardOptionSchema).nullable().optional(),
+}).omit({
+  id: true,
+});
+
+export const insertTranscriptSegmentSchema = createInsertSchema(transcriptSegments).omit({
   id: true,
 });
 
@@ -53,9 +276,139 @@ export const insertStudySessionSchema = createInsertSchema(studySessions).omit({
   startedAt: true,
 });
 
+export const insertCardReviewStateSchema = createInsertSchema(cardReviewStates, {
+  lastGrade: z.enum(reviewGrades).nullable().optional(),
+}).omit({
+  id: true,
+});
+
+export const insertReviewLogSchema = createInsertSchema(reviewLogs, {
+  grade: z.enum(reviewGrades),
+}).omit({
+  id: true,
+});
+
+export const reviewCardSchema = z.object({
+  grade: z.enum(reviewGrades),
+  responseTimeMs: z.number().int().min(0).max(24 * 60 * 60 * 1000).optional(),
+});
+
+// A pick in quiz mode. The server checks it against the card's options.
+export const quizAnswerSchema = z.object({
+  flashcardId: z.number().int(),
+  option: z.string().min(1),
+  responseTimeMs: z.number().int().min(0).max(24 * 60 * 60 * 1000).optional(),
+});
+
+// Query string of GET /api/reviews/logs: newest first, `before` is the
+// `nextCursor` of the previous page.
+export const reviewLogsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+  before: z.coerce.number().int().min(1).optional(),
+  flashcardId: z.coerce.number().int().min(1).optional(),
+});
+
+export const reviewStatsQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(30),
+  timezoneOffset: z.coerce.number().int().min(-840).max(840).default(0),
+});
+
+// How the cross-video review queue mixes cards: grouped by deck, shuffled,
+// or longest overdue first.
+export const reviewQueueOrders = ["deck", "random", "oldest"] as const;
+export type ReviewQueueOrder = typeof reviewQueueOrders[number];
+
+// Query string of GET /api/reviews/due. Limits are per day; `timezoneOffset`
+// is the browser's Date#getTimezoneOffset(), so "today" matches the learner's.
+export const dueReviewsQuerySchema = z.object({
+  order: z.enum(reviewQueueOrders).default("oldest"),
+  newLimit: z.coerce.number().int().min(0).max(500).default(20),
+  reviewLimit: z.coerce.number().int().min(0).max(5000).default(200),
+  timezoneOffset: z.coerce.number().int().min(-840).max(840).default(0),
+});
+
+export const insertUploadSessionSchema = createInsertSchema(uploadSessions).omit({
+  status: true,
+  videoId: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// What the client sends to start a resumable upload.
+export const createUploadSchema = z.object({
+  originalName: z.string().trim().min(1).max(255),
+  fileSize: z.number().int().min(1),
+  mimeType: z.string().trim().max(255).default("application/octet-stream"),
+});
+
+export const insertJobSchema = createInsertSchema(jobs).omit({
+  id: true,
+  status: true,
+  attempts: true,
+  lockedBy: true,
+  leaseExpiresAt: true,
+  lastError: true,
+  createdAt: true,
+  updatedAt: true,
+}).partial({
+  runAt: true,
+});
+
+// Per-request overrides of the deployment's LLM defaults.
+export const llmSettingsSchema = z.object({
+  model: z.string().trim().min(1).optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  maxTokens: z.number().int().min(1).max(32000).optional(),
+});
+
+export const regenerateFlashcardsSchema = z.object({
+  mode: z.enum(["replace", "append"]).default("replace"),
+  count: z.number().int().min(1).max(50).optional(),
+  instructions: z.string().trim().max(1000).optional(),
+  llm: llmSettingsSchema.optional(),
+});
+
+export type InsertDeck = z.infer<typeof insertDeckSchema>;
+export type Deck = typeof decks.$inferSelect;
 export type InsertVideo = z.infer<typeof insertVideoSchema>;
 export type Video = typeof videos.$inferSelect;
+export type Source = Video;
+export interface VideoFailure {
+  errorCode: string;
+  errorMessage: string;
+  failedStage: PipelineStage;
+}
+// Sent on GET /api/videos/:id/events while a source is processed. `partial`
+// transcript text is one transcribed chunk; the final event carries it all.
+export type ProcessingEvent =
+  | { type: "progress"; status: string; progress: number; stage: PipelineStage | null }
+  | { type: "transcript"; text: string; partial: boolean }
+  | { type: "flashcard"; flashcard: Flashcard }
+  | { type: "retrying"; attempts: number; maxAttempts: number; retryAt: string }
+  | { type: "failed"; failure: VideoFailure; transcriptAssessment: TranscriptAssessment | null };
 export type InsertFlashcard = z.infer<typeof insertFlashcardSchema>;
 export type Flashcard = typeof flashcards.$inferSelect;
+export type InsertTranscriptSegment = z.infer<typeof insertTranscriptSegmentSchema>;
+export type TranscriptSegment = typeof transcriptSegments.$inferSelect;
 export type InsertStudySession = z.infer<typeof insertStudySessionSchema>;
 export type StudySession = typeof studySessions.$inferSelect;
+export type RegenerateFlashcardsRequest = z.infer<typeof regenerateFlashcardsSchema>;
+export type InsertCardReviewState = z.infer<typeof insertCardReviewStateSchema>;
+export type CardReviewState = typeof cardReviewStates.$inferSelect;
+export type InsertUploadSession = z.infer<typeof insertUploadSessionSchema>;
+export type UploadSession = typeof uploadSessions.$inferSelect;
+export type DueReviewsQuery = z.infer<typeof dueReviewsQuerySchema>;
+export type InsertReviewLog = z.infer<typeof insertReviewLogSchema>;
+export type ReviewLog = typeof reviewLogs.$inferSelect;
+export type ReviewLogsQuery = z.infer<typeof reviewLogsQuerySchema>;
+export type ReviewStatsQuery = z.infer<typeof reviewStatsQuerySchema>;
+export type QuizAnswer = z.infer<typeof quizAnswerSchema>;
+// One entry of the review queue; `state` is null for a card never reviewed.
+export interface DueCard {
+  flashcard: Flashcard;
+  state: CardReviewState | null;
+  source: { id: number; originalName: string; deckId: number | null };
+}
+export type CreateUploadRequest = z.infer<typeof createUploadSchema>;
+export type InsertJob = z.infer<typeof insertJobSchema>;
+export type Job = typeof jobs.$inferSelect;